@@ -0,0 +1,451 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentError } from './agent-errors';
+import { HookManager } from './hook-manager';
+import { ModelRegistry } from './model-registry';
+import { MIN_THINKING_BUDGET_TOKENS, ThinkingOptions } from './agent-query-types';
+import { UsageBudget } from './usage-tracker';
+import { InferSchema, SchemaIssue, formatSchemaIssues, validateSchema } from './json-schema';
+
+/** 設定ファイルの名前 */
+export const CONFIG_FILE_NAME = '.agentrc.json';
+
+/**
+ * 設定ファイルのスキーマ
+ *
+ * 各階層（ユーザー・プロジェクト・環境変数・CLI）の設定はこのスキーマで検証され、
+ * すべての項目を省略できます。定義されていない項目は誤記として扱います。
+ */
+export const agentConfigSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    model: {
+      type: 'string',
+      minLength: 1,
+      description: '使用するモデル（モデルIDまたはエイリアス）',
+    },
+    systemPrompt: {
+      type: 'string',
+      description: 'エージェントのシステムプロンプト',
+    },
+    models: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        aliases: {
+          type: 'object',
+          description: 'エイリアスとモデルIDの対応（標準のエイリアスに上書きで追加）',
+          additionalProperties: { type: 'string', minLength: 1 },
+        },
+        fallbacks: {
+          type: 'object',
+          description: 'モデルIDごとのフォールバック先',
+          additionalProperties: { type: 'array', items: { type: 'string', minLength: 1 } },
+        },
+      },
+    },
+    sandbox: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        workDir: {
+          type: 'string',
+          minLength: 1,
+          description: '作業ディレクトリ（相対パスは設定ファイルのあるディレクトリ基準）',
+        },
+        allowedExtensions: {
+          type: 'array',
+          description: '読み書きを許可する拡張子（例: [".txt", ".md"]）',
+          items: { type: 'string', minLength: 2 },
+        },
+      },
+    },
+    limits: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        maxIterations: { type: 'integer', minimum: 0, description: 'ツール使用の最大回数' },
+        maxOutputTokens: { type: 'integer', minimum: 1, description: '1回の応答の最大トークン数' },
+        timeoutMs: { type: 'integer', minimum: 1, description: '1回の実行全体の制限時間（ミリ秒）' },
+        toolTimeoutMs: { type: 'integer', minimum: 1, description: 'ツール1回あたりの制限時間（ミリ秒）' },
+        budget: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            maxTokens: { type: 'integer', minimum: 1, description: '1回の実行あたりの最大トークン数' },
+            maxCostUsd: { type: 'number', minimum: 0, description: '1回の実行あたりの最大料金（USD）' },
+          },
+        },
+      },
+    },
+    thinking: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        budgetTokens: {
+          type: 'integer',
+          minimum: MIN_THINKING_BUDGET_TOKENS,
+          description: '拡張思考のトークン予算（指定すると拡張思考を有効にする）',
+        },
+        interleaved: { type: 'boolean', description: 'ツール呼び出しの合間にも思考させる' },
+        show: { type: 'boolean', description: '思考の内容を表示・実行記録に含める' },
+      },
+    },
+    subAgents: {
+      type: 'array',
+      description: 'オーケストレーターに登録するサブエージェント（省略時は標準のサブエージェント）',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          systemPrompt: { type: 'string', minLength: 1 },
+          model: { type: 'string', minLength: 1 },
+          timeoutMs: { type: 'integer', minimum: 1 },
+        },
+        required: ['name', 'systemPrompt'],
+      },
+    },
+    hooks: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        blockedTools: {
+          type: 'array',
+          description: '実行をブロックするツール名',
+          items: { type: 'string', minLength: 1 },
+        },
+        logToolCalls: { type: 'boolean', description: 'ツールの実行結果を表示する' },
+      },
+    },
+  },
+} as const;
+
+/**
+ * 1つの階層の設定（設定ファイルの内容）
+ */
+export type AgentConfigLayer = InferSchema<typeof agentConfigSchema>;
+
+/**
+ * すべての階層をマージした設定
+ */
+export interface AgentConfig {
+  model: string;
+  systemPrompt?: string;
+  models: {
+    aliases: Record<string, string>;
+    fallbacks: Record<string, string[]>;
+  };
+  sandbox: {
+    workDir: string;
+    allowedExtensions: string[];
+  };
+  limits: {
+    /** 省略時は各エージェントのデフォルト */
+    maxIterations?: number;
+    maxOutputTokens?: number;
+    timeoutMs?: number;
+    toolTimeoutMs?: number;
+    budget?: UsageBudget;
+  };
+  thinking: {
+    /** 省略時は拡張思考を使わない */
+    budgetTokens?: number;
+    interleaved: boolean;
+    show: boolean;
+  };
+  subAgents?: Array<{ name: string; systemPrompt: string; model?: string; timeoutMs?: number }>;
+  hooks: {
+    blockedTools: string[];
+    logToolCalls: boolean;
+  };
+}
+
+/**
+ * 組み込みのデフォルト設定（最も優先度が低い階層）
+ */
+export const DEFAULT_CONFIG: AgentConfig = {
+  model: 'default',
+  models: { aliases: {}, fallbacks: {} },
+  sandbox: {
+    workDir: '/tmp/claude-workspace',
+    allowedExtensions: ['.txt', '.json', '.md', '.csv'],
+  },
+  limits: {},
+  thinking: { interleaved: false, show: false },
+  hooks: { blockedTools: [], logToolCalls: false },
+};
+
+/**
+ * loadAgentConfig のオプション
+ */
+export interface LoadAgentConfigOptions {
+  /** プロジェクトの設定ファイルを探し始めるディレクトリ（デフォルト: process.cwd()） */
+  cwd?: string;
+
+  /** ユーザーの設定ファイル（~/.agentrc.json）のあるディレクトリ（デフォルト: os.homedir()） */
+  homeDir?: string;
+
+  /** プロジェクトの設定ファイルのパス（指定するとディレクトリを遡って探さない） */
+  configPath?: string;
+
+  /** 環境変数（デフォルト: process.env） */
+  env?: NodeJS.ProcessEnv;
+
+  /** CLIのフラグなどで指定する、最も優先度の高い設定 */
+  overrides?: AgentConfigLayer;
+}
+
+/**
+ * 読み込んだ設定と、その由来
+ */
+export interface LoadedAgentConfig {
+  config: AgentConfig;
+  /** マージした階層（優先度の低い順、例: ['defaults', '/home/me/.agentrc.json', 'env']） */
+  sources: string[];
+}
+
+/**
+ * 設定を読み込めない時のエラー
+ *
+ * メッセージには設定の出どころ（ファイルのパスや環境変数）と項目ごとの検証エラーが含まれます。
+ */
+export class ConfigError extends AgentError {
+  /** 設定の出どころ（ファイルのパス、'env' など） */
+  readonly source: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(source: string, message: string, issues: SchemaIssue[] = [], cause?: unknown) {
+    super('INVALID_CONFIG', issues.length > 0 ? `${message}:\n${formatSchemaIssues(issues)}` : message, cause);
+    this.name = 'ConfigError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 環境変数と設定項目の対応
+ *
+ * CLAUDE_WORK_DIR はこれまでのデモと同じ意味で使えます。
+ * WORK_DIR と TS_NODE_CWD も作業ディレクトリとして読み込みます（後に書いたものほど優先）。
+ */
+const ENV_KEYS = {
+  CLAUDE_MODEL: 'model',
+  WORK_DIR: 'sandbox.workDir',
+  TS_NODE_CWD: 'sandbox.workDir',
+  CLAUDE_WORK_DIR: 'sandbox.workDir',
+  CLAUDE_MAX_ITERATIONS: 'limits.maxIterations',
+  CLAUDE_TIMEOUT_MS: 'limits.timeoutMs',
+} as const;
+
+/**
+ * 設定を階層ごとに読み込み、マージする
+ *
+ * 優先度は デフォルト < ユーザー（~/.agentrc.json） < プロジェクト（.agentrc.json） < 環境変数 < overrides。
+ * オブジェクトは項目ごとにマージし、配列や値は優先度の高い階層で置き換えます。
+ * プロジェクトの設定ファイルは cwd から親ディレクトリへ遡って最初に見つかったものを使います。
+ *
+ * @example
+ * ```typescript
+ * const { config } = loadAgentConfig({ overrides: { model: 'fast' } });
+ * const agent = new SandboxedClaudeAgent(apiKey, config.sandbox.workDir, {
+ *   model: config.model,
+ *   models: createModelRegistry(config),
+ *   hooks: createConfigHooks(config),
+ *   allowedExtensions: config.sandbox.allowedExtensions,
+ * });
+ * ```
+ */
+export function loadAgentConfig(options: LoadAgentConfigOptions = {}): LoadedAgentConfig {
+  const layers: Array<{ source: string; layer: AgentConfigLayer }> = [];
+
+  const userFile = path.join(options.homeDir ?? os.homedir(), CONFIG_FILE_NAME);
+  if (fs.existsSync(userFile)) {
+    layers.push({ source: userFile, layer: readConfigFile(userFile) });
+  }
+
+  const cwd = options.cwd ?? process.cwd();
+  let projectFile: string | undefined;
+  if (options.configPath) {
+    projectFile = path.resolve(cwd, options.configPath);
+    if (!fs.existsSync(projectFile)) {
+      throw new ConfigError(projectFile, `設定ファイルが見つかりません: ${projectFile}`);
+    }
+  } else {
+    projectFile = findProjectConfig(cwd);
+  }
+  // ホームディレクトリの中で作業している場合、ユーザーの設定ファイルを二重に読まない
+  if (projectFile && projectFile !== userFile) {
+    layers.push({ source: projectFile, layer: readConfigFile(projectFile) });
+  }
+
+  const envLayer = readEnvLayer(options.env ?? process.env);
+  if (envLayer) {
+    layers.push({ source: 'env', layer: envLayer });
+  }
+
+  if (options.overrides) {
+    layers.push({ source: 'overrides', layer: validateLayer(options.overrides, 'overrides') });
+  }
+
+  const config = layers.reduce<AgentConfig>(
+    (merged, { layer }) => mergeConfig(merged, layer) as AgentConfig,
+    DEFAULT_CONFIG
+  );
+  return { config, sources: ['defaults', ...layers.map(({ source }) => source)] };
+}
+
+/**
+ * 設定ファイルを読み込んで検証する
+ *
+ * sandbox.workDir の相対パスは設定ファイルのあるディレクトリ基準の絶対パスに変換します。
+ */
+export function readConfigFile(file: string): AgentConfigLayer {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(file, `設定ファイルを読み込めません: ${file}（${reason}）`, [], error);
+  }
+
+  const layer = validateLayer(raw, file);
+  const workDir = layer.sandbox?.workDir;
+  if (workDir !== undefined && !path.isAbsolute(workDir)) {
+    layer.sandbox = { ...layer.sandbox, workDir: path.resolve(path.dirname(file), workDir) };
+  }
+  return layer;
+}
+
+/**
+ * 設定のモデルのエイリアス・フォールバックを登録したレジストリを作成
+ */
+export function createModelRegistry(config: AgentConfig): ModelRegistry {
+  return new ModelRegistry({ aliases: config.models.aliases, fallbacks: config.models.fallbacks });
+}
+
+/**
+ * 設定の thinking をエージェントの拡張思考の設定に変換（budgetTokens がなければ undefined）
+ */
+export function createThinkingOptions(config: AgentConfig): ThinkingOptions | undefined {
+  const { budgetTokens, interleaved } = config.thinking;
+  return budgetTokens === undefined ? undefined : { budgetTokens, interleaved };
+}
+
+/**
+ * 設定の hooks をHookManagerとして作成（何も設定されていなければ undefined）
+ *
+ * ツール呼び出しのログ（hooks.logToolCalls）はHookManagerのロガーに出力します。
+ *
+ * @param hooks 既存のHookManager（指定するとそこに登録する）
+ */
+export function createConfigHooks(config: AgentConfig, hooks?: HookManager): HookManager | undefined {
+  const { blockedTools, logToolCalls } = config.hooks;
+  if (blockedTools.length === 0 && !logToolCalls) {
+    return hooks;
+  }
+
+  const manager = hooks ?? new HookManager();
+  if (blockedTools.length > 0) {
+    manager.register('pre:tool', 'config:blocked-tools', ctx => {
+      if (blockedTools.includes(ctx.toolName)) {
+        return { block: true, blockReason: `${ctx.toolName} は設定（hooks.blockedTools）で禁止されています` };
+      }
+    });
+  }
+  if (logToolCalls) {
+    manager.register('post:tool', 'config:log-tool-calls', ctx => {
+      if (ctx.error) {
+        manager.logger.warn(`🪝 ${ctx.toolName}: ❌`, { tool: ctx.toolName, error: ctx.error });
+      } else {
+        manager.logger.info(`🪝 ${ctx.toolName}: ✅`, { tool: ctx.toolName });
+      }
+    });
+  }
+  return manager;
+}
+
+/**
+ * cwd から親ディレクトリへ遡ってプロジェクトの設定ファイルを探す
+ */
+function findProjectConfig(cwd: string): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, CONFIG_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * 環境変数から設定の階層を作る（該当する環境変数がなければ null）
+ */
+function readEnvLayer(env: NodeJS.ProcessEnv): AgentConfigLayer | null {
+  const layer: Record<string, unknown> = {};
+  const names: string[] = [];
+
+  for (const [name, key] of Object.entries(ENV_KEYS)) {
+    const value = env[name];
+    if (!value) continue;
+    names.push(name);
+
+    const [section, field] = key.split('.');
+    // 数値の項目は変換し、変換できない値はスキーマの検証でエラーにする
+    const parsed = section === 'limits' ? Number(value) : value;
+    if (field) {
+      layer[section] = { ...(layer[section] as object | undefined), [field]: parsed };
+    } else {
+      layer[section] = parsed;
+    }
+  }
+
+  if (names.length === 0) {
+    return null;
+  }
+  return validateLayer(layer, `環境変数（${names.join(', ')}）`);
+}
+
+/**
+ * 1つの階層をスキーマで検証する
+ */
+function validateLayer(value: unknown, source: string): AgentConfigLayer {
+  const issues = validateSchema(value, agentConfigSchema);
+  if (issues.length > 0) {
+    throw new ConfigError(source, `${source} の設定が正しくありません`, issues);
+  }
+
+  const layer = value as AgentConfigLayer;
+  const badExtension = layer.sandbox?.allowedExtensions?.findIndex(ext => !ext.startsWith('.'));
+  if (badExtension !== undefined && badExtension !== -1) {
+    throw new ConfigError(source, `${source} の設定が正しくありません`, [
+      { path: `$.sandbox.allowedExtensions[${badExtension}]`, message: '"." で始まる拡張子である必要があります' },
+    ]);
+  }
+  return layer;
+}
+
+/**
+ * 2つの設定をマージする（オブジェクトは再帰的にマージ、それ以外は後の値で置き換え）
+ */
+function mergeConfig(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeConfig(base[key], value);
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,129 @@
+import { AbortError, TimeoutError } from './cancellation';
+
+/**
+ * エラーコード
+ *
+ * メッセージは変わることがありますが、コードは安定しているため判定にはこちらを使ってください。
+ *
+ * - PATH_OUTSIDE_SANDBOX: パスが作業ディレクトリ外を指している
+ * - EXTENSION_NOT_ALLOWED: 許可されていない拡張子
+ * - NOT_FOUND: ファイル・ディレクトリが存在しない
+ * - NOT_A_FILE / NOT_A_DIRECTORY: ファイル・ディレクトリではない
+ * - IO_ERROR: その他のファイル操作の失敗
+ * - UNKNOWN_TOOL: 登録されていないツール
+ * - TOOL_BLOCKED: pre:tool Hookで実行がブロックされた
+ * - INVALID_TOOL_INPUT: ツールの入力がスキーマに一致しない
+ * - TOOL_INPUT_TRUNCATED: max_tokens でツールの入力が途切れた
+ * - TOOL_FAILED: ツールの実行に失敗した（上記以外）
+ * - TIMEOUT / ABORTED: 制限時間の超過・中断
+ * - BUDGET_EXCEEDED: 使用量の上限を超えた
+ * - UNKNOWN_SUB_AGENT: 登録されていないサブエージェント
+ * - SUB_AGENT_FAILED: サブエージェントの実行に失敗した（上記以外）
+ * - STRUCTURED_OUTPUT_FAILED: スキーマに一致する構造化出力を得られなかった
+ * - PLAN_PARSE_FAILED: オーケストレーターの実行計画を得られなかった
+ * - INVALID_CONFIG: 設定ファイル・環境変数の設定が読み込めない、またはスキーマに一致しない
+ */
+export type AgentErrorCode =
+  | 'PATH_OUTSIDE_SANDBOX'
+  | 'EXTENSION_NOT_ALLOWED'
+  | 'NOT_FOUND'
+  | 'NOT_A_FILE'
+  | 'NOT_A_DIRECTORY'
+  | 'IO_ERROR'
+  | 'UNKNOWN_TOOL'
+  | 'TOOL_BLOCKED'
+  | 'INVALID_TOOL_INPUT'
+  | 'TOOL_INPUT_TRUNCATED'
+  | 'TOOL_FAILED'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'BUDGET_EXCEEDED'
+  | 'UNKNOWN_SUB_AGENT'
+  | 'SUB_AGENT_FAILED'
+  | 'STRUCTURED_OUTPUT_FAILED'
+  | 'PLAN_PARSE_FAILED'
+  | 'INVALID_CONFIG';
+
+/**
+ * コード付きエラーの基底クラス
+ */
+export class AgentError extends Error {
+  readonly code: AgentErrorCode;
+  /** 元になった例外 */
+  readonly cause?: unknown;
+
+  constructor(code: AgentErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AgentError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * サンドボックス内のファイル操作のエラー
+ */
+export class SandboxError extends AgentError {
+  /** 操作対象のパス（作業ディレクトリからの相対パス） */
+  readonly path: string;
+
+  constructor(
+    code: 'PATH_OUTSIDE_SANDBOX' | 'EXTENSION_NOT_ALLOWED' | 'NOT_FOUND' | 'NOT_A_FILE' | 'NOT_A_DIRECTORY' | 'IO_ERROR',
+    message: string,
+    path: string,
+    cause?: unknown
+  ) {
+    super(code, message, cause);
+    this.name = 'SandboxError';
+    this.path = path;
+  }
+}
+
+/**
+ * ツール呼び出しのエラー（未知のツール、ブロック、入力の途切れなど）
+ */
+export class ToolError extends AgentError {
+  readonly toolName: string;
+
+  constructor(code: AgentErrorCode, message: string, toolName: string, cause?: unknown) {
+    super(code, message, cause);
+    this.name = 'ToolError';
+    this.toolName = toolName;
+  }
+}
+
+/**
+ * オーケストレーターの実行計画を得られなかった時のエラー
+ */
+export class PlanParseError extends AgentError {
+  constructor(message: string, cause?: unknown) {
+    super('PLAN_PARSE_FAILED', message, cause);
+    this.name = 'PlanParseError';
+  }
+}
+
+/**
+ * 任意の例外値をAgentErrorに変換
+ *
+ * AgentErrorはそのまま返し、中断・制限時間はそれぞれのコード、それ以外は fallback のコードになります。
+ */
+export function toAgentError(error: unknown, fallback: AgentErrorCode = 'TOOL_FAILED'): AgentError {
+  if (error instanceof AgentError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof TimeoutError) {
+    return new AgentError('TIMEOUT', message, error);
+  }
+  if (error instanceof AbortError) {
+    return new AgentError('ABORTED', message, error);
+  }
+  return new AgentError(fallback, message, error);
+}
+
+/**
+ * 指定したコードのAgentErrorかどうかを判定
+ */
+export function isAgentError(error: unknown, code?: AgentErrorCode): error is AgentError {
+  return error instanceof AgentError && (code === undefined || error.code === code);
+}
@@ -1,9 +1,12 @@
-import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
+import { AgentRunner, ToolRegistry } from './agent-runner';
+import { defineTool } from './define-tool';
+import { createResilientClient } from './resilient-client';
+import { hasApiAccess } from './cassette';
 
 dotenv.config();
 
-const client = new Anthropic({
+const client = createResilientClient({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
@@ -34,94 +37,48 @@ function getWeather(location: string): WeatherInfo {
 async function toolUseExample() {
   console.log('=== Tool Use Example ===\n');
 
-  const tools: Anthropic.Tool[] = [
-    {
-      name: 'get_weather',
-      description: '指定された場所の現在の天気情報を取得します',
-      input_schema: {
-        type: 'object',
-        properties: {
-          location: {
-            type: 'string',
-            description: '天気を取得したい場所の名前（例：東京、大阪）',
-          },
+  // ツールを定義（入力はスキーマで検証され、ハンドラーには型付きで渡される）
+  const weatherTool = defineTool({
+    name: 'get_weather',
+    description: '指定された場所の現在の天気情報を取得します',
+    schema: {
+      type: 'object',
+      properties: {
+        location: {
+          type: 'string',
+          description: '天気を取得したい場所の名前（例：東京、大阪）',
         },
-        required: ['location'],
       },
+      required: ['location'],
     },
-  ];
+    handler: input => {
+      console.log('\nTool Used:', weatherTool.definition.name);
+      console.log('Tool Input:', JSON.stringify(input, null, 2));
 
-  const messages: Anthropic.MessageParam[] = [
-    {
-      role: 'user',
-      content: '東京の天気を教えてください',
-    },
-  ];
+      const toolResult = getWeather(input.location);
 
-  let response = await client.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
-    max_tokens: 1024,
-    tools: tools,
-    messages: messages,
+      console.log('Tool Result:', JSON.stringify(toolResult, null, 2));
+      return toolResult;
+    },
   });
 
-  console.log('Initial Response:', JSON.stringify(response.content, null, 2));
-
-  // ツールの使用をチェック
-  while (response.stop_reason === 'tool_use') {
-    const toolUse = response.content.find(
-      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
-    );
+  // ツールとその実行関数を登録
+  const registry = new ToolRegistry().add(weatherTool);
 
-    if (!toolUse) break;
-
-    console.log('\nTool Used:', toolUse.name);
-    console.log('Tool Input:', JSON.stringify(toolUse.input, null, 2));
-
-    // ツールを実行
-    let toolResult: unknown;
-    if (toolUse.name === 'get_weather') {
-      const input = toolUse.input as { location: string };
-      toolResult = getWeather(input.location);
-    }
-
-    console.log('Tool Result:', JSON.stringify(toolResult, null, 2));
-
-    // アシスタントの応答を履歴に追加
-    messages.push({
-      role: 'assistant',
-      content: response.content,
-    });
-
-    // ツールの結果を追加
-    messages.push({
-      role: 'user',
-      content: [
-        {
-          type: 'tool_result',
-          tool_use_id: toolUse.id,
-          content: JSON.stringify(toolResult),
-        },
-      ],
-    });
-
-    // 次の応答を取得
-    response = await client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 1024,
-      tools: tools,
-      messages: messages,
-    });
-
-    console.log('\nFinal Response:', JSON.stringify(response.content, null, 2));
-  }
+  const runner = new AgentRunner({
+    client,
+    tools: registry,
+    query: { maxTokens: 1024 },
+    onResponse: (response, iteration) => {
+      const label = iteration === 0 ? 'Initial Response' : 'Next Response';
+      console.log(`\n${label}:`, JSON.stringify(response.content, null, 2));
+    },
+  });
 
-  const finalText = response.content.find(
-    (block): block is Anthropic.TextBlock => block.type === 'text'
-  );
+  const result = await runner.run('東京の天気を教えてください');
 
-  if (finalText) {
-    console.log('\nFinal Answer:', finalText.text);
+  if (result.text) {
+    console.log('\nFinal Answer:', result.text);
   }
   console.log('\n');
 }
@@ -131,8 +88,9 @@ async function toolUseExample() {
  */
 async function main() {
   try {
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!hasApiAccess()) {
       console.error('エラー: ANTHROPIC_API_KEYが設定されていません');
+      console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
       return;
     }
 
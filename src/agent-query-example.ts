@@ -6,12 +6,15 @@ import {
   createToolQuery,
   createSystemQuery,
 } from './agent-query-types';
+import { cassetteFromEnv, hasApiAccess, withCassette } from './cassette';
 
 dotenv.config();
 
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+const client = new Anthropic(
+  withCassette(cassetteFromEnv(), {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  })
+);
 
 /**
  * 例1: シンプルなクエリの作成
@@ -38,7 +41,7 @@ async function example2_builderPattern() {
 
   // Fluent APIスタイルでクエリを構築
   const query = new AgentQueryBuilder()
-    .setModel('claude-3-5-sonnet-20241022')
+    .setModel('default') // エイリアスは build() 時にモデルIDへ解決される
     .setMaxTokens(2048)
     .setSystemPrompt('あなたは親切で丁寧な日本語アシスタントです。')
     .setTemperature(0.7)
@@ -221,7 +224,7 @@ async function example6_advancedSettings() {
   console.log('\n=== 例6: 詳細設定 ===\n');
 
   const query = new AgentQueryBuilder()
-    .setModel('claude-3-5-sonnet-20241022')
+    .setModel('fast') // 短い応答には高速なモデル
     .setMaxTokens(1024)
     .setTemperature(0.5) // より決定論的な応答
     .setTopP(0.9) // サンプリング設定
@@ -250,7 +253,7 @@ async function example7_builderReuse() {
 
   // 共通設定を持つベースビルダーを作成
   const baseBuilder = new AgentQueryBuilder()
-    .setModel('claude-3-5-sonnet-20241022')
+    .setModel('default')
     .setMaxTokens(1024)
     .setSystemPrompt('あなたはプログラミングの先生です。')
     .setTemperature(0.7);
@@ -277,6 +280,52 @@ async function example7_builderReuse() {
   console.log('\nGoについて:', text2?.substring(0, 200) + '...');
 }
 
+/**
+ * 例8: ストリーミングクエリ
+ */
+async function example8_streaming() {
+  console.log('\n=== 例8: ストリーミング ===\n');
+
+  // enableStreaming() したビルダーは buildStreaming() でパラメータを組み立てる
+  const builder = new AgentQueryBuilder()
+    .setMaxTokens(1024)
+    .enableStreaming()
+    .addUserMessage('ストリーミングAPIの利点を3つ挙げてください。');
+
+  const stream = await client.messages.create(builder.buildStreaming());
+
+  process.stdout.write('応答: ');
+  for await (const event of stream) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      process.stdout.write(event.delta.text);
+    }
+  }
+  console.log();
+}
+
+/**
+ * 例9: プロンプトキャッシュ
+ */
+async function example9_promptCache() {
+  console.log('\n=== 例9: プロンプトキャッシュ ===\n');
+
+  // 長いシステムプロンプトをキャッシュし、2回目以降はキャッシュから読み込ませる
+  const longSystemPrompt = 'あなたはTypeScriptの専門家です。\n' + '回答は簡潔に、コード例を添えてください。\n'.repeat(200);
+  const builder = new AgentQueryBuilder()
+    .setSystemPrompt(longSystemPrompt)
+    .cacheSystemPrompt()
+    .setMaxTokens(512);
+
+  for (const question of ['ジェネリクスとは？', 'ユニオン型とは？']) {
+    const response = await client.messages.create(
+      builder.clone().setMessages([]).addUserMessage(question).build()
+    );
+    console.log(`質問: ${question}`);
+    console.log(`  キャッシュ書込: ${response.usage.cache_creation_input_tokens ?? 0}トークン`);
+    console.log(`  キャッシュ読込: ${response.usage.cache_read_input_tokens ?? 0}トークン`);
+  }
+}
+
 /**
  * メイン関数
  */
@@ -285,9 +334,10 @@ async function main() {
   console.log('║       Agent Query Types - 使用例デモ                         ║');
   console.log('╚════════════════════════════════════════════════════════════════╝');
 
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!hasApiAccess()) {
     console.error('\n❌ エラー: ANTHROPIC_API_KEYが設定されていません');
-    console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください\n');
+    console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+    console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください\n');
     return;
   }
 
@@ -300,6 +350,8 @@ async function main() {
     // await example5_conversationHistory();
     // await example6_advancedSettings();
     // await example7_builderReuse();
+    // await example8_streaming();
+    // await example9_promptCache();
 
     console.log('\n✅ すべての例が正常に実行されました！');
   } catch (error) {
@@ -322,4 +374,6 @@ export {
   example5_conversationHistory,
   example6_advancedSettings,
   example7_builderReuse,
+  example8_streaming,
+  example9_promptCache,
 };
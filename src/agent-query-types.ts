@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { resolveModel } from './model-registry';
 
 /**
  * Agentクエリのビルダー型定義
@@ -11,7 +12,7 @@ import Anthropic from '@anthropic-ai/sdk';
  * 基本的なクエリパラメータ（必須フィールド含む）
  */
 export interface AgentQueryBase {
-  /** 使用するモデル（例: 'claude-3-5-sonnet-20241022'） */
+  /** 使用するモデル（例: 'claude-sonnet-4-5-20250929'、またはエイリアス 'default' / 'smart' / 'fast'） */
   model: string;
 
   /** 生成する最大トークン数 */
@@ -52,8 +53,58 @@ export interface AgentQueryOptions {
   /** 拡張思考設定 */
   thinking?: Anthropic.MessageCreateParamsNonStreaming['thinking'];
 
+  /**
+   * ツール呼び出しの合間にも思考させる（interleaved thinking ベータ）
+   *
+   * 有効にすると budget_tokens は1ターン全体の思考の上限になり、maxTokens を超えて指定できます。
+   */
+  interleavedThinking?: boolean;
+
   /** メタデータ */
   metadata?: Anthropic.MessageCreateParamsNonStreaming['metadata'];
+
+  /** プロンプトキャッシュ設定 */
+  cache?: PromptCacheOptions;
+}
+
+/**
+ * プロンプトキャッシュの設定
+ *
+ * 指定した位置に cache_control ブレークポイントを置き、そこまでのプレフィックスをキャッシュさせます。
+ * ブレークポイントはリクエスト全体で最大4つまでです。
+ */
+export interface PromptCacheOptions {
+  /** システムプロンプトの末尾をキャッシュする */
+  system?: boolean;
+
+  /** ツール定義の末尾をキャッシュする */
+  tools?: boolean;
+
+  /** キャッシュするメッセージの位置（負の値は末尾から数える。-1 は最新のメッセージ） */
+  messages?: number[];
+
+  /**
+   * エージェントループ向けの自動配置
+   *
+   * システムプロンプト・ツール定義・最新のメッセージにブレークポイントを置きます。
+   * 毎イテレーション同じシステムプロンプトとツール定義を送り、履歴が末尾に伸びていくため、
+   * 前回のリクエストまでの部分がそのままキャッシュから読み込まれます。
+   */
+  auto?: boolean;
+
+  /** キャッシュの有効期間（デフォルト: '5m'） */
+  ttl?: '5m' | '1h';
+}
+
+/**
+ * エージェントの拡張思考の設定
+ */
+export interface ThinkingOptions {
+  /** 思考に使う最大トークン数（1024以上。interleaved でなければ maxTokens 未満） */
+  budgetTokens: number;
+
+  /** ツール呼び出しの合間にも思考させる */
+  interleaved?: boolean;
 }
 
 /**
@@ -61,11 +112,21 @@ export interface AgentQueryOptions {
  */
 export type AgentQuery = AgentQueryBase & AgentQueryOptions;
 
+/** 1リクエストに置けるキャッシュブレークポイントの最大数 */
+export const MAX_CACHE_BREAKPOINTS = 4;
+
+/** budget_tokens の最小値 */
+export const MIN_THINKING_BUDGET_TOKENS = 1024;
+
+/** interleaved thinking を有効にするベータヘッダーの値 */
+export const INTERLEAVED_THINKING_BETA = 'interleaved-thinking-2025-05-14';
+
 /**
  * デフォルト設定
  */
 export const DEFAULT_AGENT_CONFIG = {
-  model: 'claude-3-5-sonnet-20241022',
+  /** モデルのエイリアス（build時に defaultModelRegistry で解決） */
+  model: 'default',
   maxTokens: 4096,
   temperature: 1.0,
 } as const;
@@ -79,7 +140,7 @@ export const DEFAULT_AGENT_CONFIG = {
  * @example
  * ```typescript
  * const query = new AgentQueryBuilder()
- *   .setModel('claude-3-5-sonnet-20241022')
+ *   .setModel('smart')
  *   .setMaxTokens(2048)
  *   .addMessage('user', 'こんにちは')
  *   .setSystemPrompt('あなたは親切なアシスタントです')
@@ -99,7 +160,7 @@ export class AgentQueryBuilder {
   }
 
   /**
-   * モデルを設定
+   * モデルを設定（モデルIDまたはエイリアス）
    */
   setModel(model: string): this {
     this.query.model = model;
@@ -192,6 +253,8 @@ export class AgentQueryBuilder {
 
   /**
    * ストリーミングを有効化
+   *
+   * 有効化したビルダーからは buildStreaming() でパラメータを組み立てます。
    */
   enableStreaming(): this {
     this.query.stream = true;
@@ -230,6 +293,24 @@ export class AgentQueryBuilder {
     return this;
   }
 
+  /**
+   * 拡張思考を有効化（setThinking と setInterleavedThinking の便利メソッド）
+   */
+  enableThinking(options: ThinkingOptions): this {
+    return this.setThinking({ type: 'enabled', budget_tokens: options.budgetTokens })
+      .setInterleavedThinking(options.interleaved ?? false);
+  }
+
+  /**
+   * ツール呼び出しの合間の思考（interleaved thinking）を有効化
+   *
+   * APIにはベータヘッダーで指定するため、リクエスト時には buildHeaders() の結果を渡してください。
+   */
+  setInterleavedThinking(enabled: boolean = true): this {
+    this.query.interleavedThinking = enabled;
+    return this;
+  }
+
   /**
    * メタデータを設定
    */
@@ -239,9 +320,92 @@ export class AgentQueryBuilder {
   }
 
   /**
-   * クエリパラメータをビルドして返す
+   * システムプロンプトをキャッシュ対象にする
+   */
+  cacheSystemPrompt(): this {
+    return this.updateCache({ system: true });
+  }
+
+  /**
+   * ツール定義をキャッシュ対象にする
+   */
+  cacheTools(): this {
+    return this.updateCache({ tools: true });
+  }
+
+  /**
+   * 指定位置のメッセージまでをキャッシュ対象にする
+   *
+   * @param index - メッセージの位置（負の値は末尾から数える。デフォルト: -1 = 最新のメッセージ）
+   */
+  cacheMessage(index: number = -1): this {
+    const messages = this.query.cache?.messages ?? [];
+    return this.updateCache({ messages: [...messages, index] });
+  }
+
+  /**
+   * キャッシュブレークポイントの自動配置を有効化
+   *
+   * @see PromptCacheOptions.auto
+   */
+  enableAutoCache(): this {
+    return this.updateCache({ auto: true });
+  }
+
+  /**
+   * キャッシュの有効期間を設定
+   */
+  setCacheTtl(ttl: '5m' | '1h'): this {
+    return this.updateCache({ ttl });
+  }
+
+  /**
+   * ストリーミングが有効化されているか確認
+   */
+  isStreaming(): boolean {
+    return this.query.stream === true;
+  }
+
+  /**
+   * クエリパラメータをビルドして返す（非ストリーミング）
+   *
+   * enableStreaming()の設定は無視されます。ストリーミング用には buildStreaming() を使用してください。
    */
   build(): Anthropic.MessageCreateParamsNonStreaming {
+    return this.buildParams();
+  }
+
+  /**
+   * ストリーミング用のクエリパラメータをビルドして返す
+   *
+   * @example
+   * ```typescript
+   * const stream = await client.messages.create(builder.buildStreaming());
+   * for await (const event of stream) { ... }
+   * ```
+   */
+  buildStreaming(): Anthropic.MessageCreateParamsStreaming {
+    return { ...this.buildParams(), stream: true };
+  }
+
+  /**
+   * リクエストに付けるヘッダーを返す（interleaved thinking のベータヘッダーなど）
+   *
+   * @example
+   * ```typescript
+   * const response = await client.messages.create(builder.build(), { headers: builder.buildHeaders() });
+   * ```
+   */
+  buildHeaders(): Record<string, string> {
+    return this.query.interleavedThinking && this.query.thinking?.type === 'enabled'
+      ? { 'anthropic-beta': INTERLEAVED_THINKING_BETA }
+      : {};
+  }
+
+  /**
+   * ストリーミング有無に依存しない共通パラメータを組み立てる
+   */
+  private buildParams(): Omit<Anthropic.MessageCreateParamsNonStreaming, 'stream'> {
     if (!this.query.model) {
       throw new Error('model is required');
     }
@@ -251,10 +415,11 @@ export class AgentQueryBuilder {
     if (!this.query.messages || this.query.messages.length === 0) {
       throw new Error('messages are required');
     }
+    this.validateThinking(this.query.maxTokens);
 
     // Anthropic SDK形式に変換（キャメルケースからスネークケースへ）
-    const params: Anthropic.MessageCreateParamsNonStreaming = {
-      model: this.query.model,
+    const params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'stream'> = {
+      model: resolveModel(this.query.model),
       max_tokens: this.query.maxTokens,
       messages: this.query.messages,
     };
@@ -268,9 +433,39 @@ export class AgentQueryBuilder {
     if (this.query.stopSequences !== undefined) params.stop_sequences = this.query.stopSequences;
     if (this.query.thinking !== undefined) params.thinking = this.query.thinking;
     if (this.query.metadata !== undefined) params.metadata = this.query.metadata;
-    if (this.query.stream !== undefined) params.stream = this.query.stream;
 
-    return params;
+    return this.query.cache ? applyPromptCache(params, this.query.cache) : params;
+  }
+
+  /**
+   * 拡張思考の設定を検証
+   *
+   * budget_tokens は応答本文の分を残すため maxTokens 未満でなければならない
+   * （interleaved thinking ではターン全体の上限になるため対象外）。
+   */
+  private validateThinking(maxTokens: number): void {
+    const { thinking } = this.query;
+    if (thinking?.type !== 'enabled') {
+      return;
+    }
+    if (thinking.budget_tokens < MIN_THINKING_BUDGET_TOKENS) {
+      throw new Error(
+        `thinking.budget_tokens は${MIN_THINKING_BUDGET_TOKENS}以上にしてください（${thinking.budget_tokens}が指定されています）`
+      );
+    }
+    if (!this.query.interleavedThinking && thinking.budget_tokens >= maxTokens) {
+      throw new Error(
+        `thinking.budget_tokens（${thinking.budget_tokens}）は maxTokens（${maxTokens}）より小さくしてください`
+      );
+    }
+  }
+
+  /**
+   * キャッシュ設定を更新（clone()したビルダーと設定を共有しないよう新しいオブジェクトにする）
+   */
+  private updateCache(update: PromptCacheOptions): this {
+    this.query.cache = { ...this.query.cache, ...update };
+    return this;
   }
 
   /**
@@ -281,6 +476,167 @@ export class AgentQueryBuilder {
   }
 }
 
+/**
+ * パラメータに cache_control ブレークポイントを付与
+ *
+ * 元のメッセージ配列やツール定義は書き換えず、コピーに付与します
+ * （エージェントループで履歴にブレークポイントが溜まっていかないようにするため）。
+ */
+function applyPromptCache(
+  params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'stream'>,
+  cache: PromptCacheOptions
+): Omit<Anthropic.MessageCreateParamsNonStreaming, 'stream'> {
+  const cacheControl: Anthropic.CacheControlEphemeral = cache.ttl
+    ? { type: 'ephemeral', ttl: cache.ttl }
+    : { type: 'ephemeral' };
+  const result = { ...params };
+
+  if ((cache.system || cache.auto) && params.system) {
+    const blocks: Anthropic.TextBlockParam[] = typeof params.system === 'string'
+      ? [{ type: 'text', text: params.system }]
+      : params.system;
+    result.system = withCacheOnLast(blocks, cacheControl);
+  }
+
+  if ((cache.tools || cache.auto) && params.tools) {
+    result.tools = withCacheOnLast(params.tools, cacheControl);
+  }
+
+  const indices = new Set<number>();
+  for (const index of [...(cache.messages ?? []), ...(cache.auto ? [-1] : [])]) {
+    const resolved = index < 0 ? params.messages.length + index : index;
+    if (resolved < 0 || resolved >= params.messages.length) {
+      throw new Error(`キャッシュ対象のメッセージ位置が範囲外です: ${index}`);
+    }
+    indices.add(resolved);
+  }
+  if (indices.size > 0) {
+    result.messages = params.messages.map((message, i) =>
+      indices.has(i) ? withCacheOnMessage(message, cacheControl) : message
+    );
+  }
+
+  const breakpoints = countCacheBreakpoints(result);
+  if (breakpoints > MAX_CACHE_BREAKPOINTS) {
+    throw new Error(
+      `キャッシュブレークポイントは最大${MAX_CACHE_BREAKPOINTS}つまでです（${breakpoints}つ指定されています）`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * 配列の最後の要素に cache_control を付けたコピーを返す
+ */
+function withCacheOnLast<T extends { cache_control?: Anthropic.CacheControlEphemeral | null }>(
+  items: T[],
+  cacheControl: Anthropic.CacheControlEphemeral
+): T[] {
+  if (items.length === 0) return items;
+  return [...items.slice(0, -1), { ...items[items.length - 1], cache_control: cacheControl }];
+}
+
+/**
+ * メッセージの最後のブロックに cache_control を付けたコピーを返す
+ *
+ * thinking / redacted_thinking ブロックには付けられないため、それより前のブロックに付けます。
+ */
+function withCacheOnMessage(
+  message: Anthropic.MessageParam,
+  cacheControl: Anthropic.CacheControlEphemeral
+): Anthropic.MessageParam {
+  if (typeof message.content === 'string') {
+    return {
+      ...message,
+      content: [{ type: 'text', text: message.content, cache_control: cacheControl }],
+    };
+  }
+
+  let target = message.content.length - 1;
+  while (target >= 0 && isThinkingBlock(message.content[target])) {
+    target--;
+  }
+  if (target < 0) return message;
+
+  return {
+    ...message,
+    content: message.content.map((block, i) =>
+      i === target ? ({ ...block, cache_control: cacheControl } as Anthropic.ContentBlockParam) : block
+    ),
+  };
+}
+
+/**
+ * リクエストに含まれる cache_control ブレークポイントの数を数える
+ */
+function countCacheBreakpoints(
+  params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'stream'>
+): number {
+  const hasCache = (item: object) =>
+    'cache_control' in item && (item as { cache_control?: unknown }).cache_control != null;
+
+  const system = Array.isArray(params.system) ? params.system.filter(hasCache).length : 0;
+  const tools = (params.tools ?? []).filter(hasCache).length;
+  const messages = params.messages
+    .flatMap(message => (typeof message.content === 'string' ? [] : message.content))
+    .filter(hasCache).length;
+
+  return system + tools + messages;
+}
+
+/**
+ * ヘルパー関数: エージェントの拡張思考の設定をクエリの設定に変換（未指定の場合は空）
+ *
+ * @example
+ * ```typescript
+ * const runner = new AgentRunner({ client, query: { maxTokens: 16000, ...thinkingQuery({ budgetTokens: 8000 }) } });
+ * ```
+ */
+export function thinkingQuery(thinking?: ThinkingOptions): Partial<AgentQuery> {
+  if (!thinking) {
+    return {};
+  }
+  return {
+    thinking: { type: 'enabled', budget_tokens: thinking.budgetTokens },
+    interleavedThinking: thinking.interleaved ?? false,
+  };
+}
+
+/**
+ * 会話履歴から thinking / redacted_thinking ブロックを取り除く
+ *
+ * 思考に対応していないモデルに送る場合や、要約の入力にする場合に使います。
+ * ブロックがすべて取り除かれたメッセージは履歴から除きます。
+ */
+export function stripThinkingBlocks(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  return messages.flatMap(message => {
+    if (typeof message.content === 'string') {
+      return [message];
+    }
+    const content = message.content.filter(block => !isThinkingBlock(block));
+    if (content.length === message.content.length) {
+      return [message];
+    }
+    return content.length > 0 ? [{ ...message, content }] : [];
+  });
+}
+
+/**
+ * 応答から思考の内容を取り出す（表示用、伏せられた思考は '（伏せられた思考）' になります）
+ */
+export function extractThinking(content: Anthropic.ContentBlock[]): string[] {
+  return content.flatMap(block => {
+    if (block.type === 'thinking') return [block.thinking];
+    if (block.type === 'redacted_thinking') return ['（伏せられた思考）'];
+    return [];
+  });
+}
+
+function isThinkingBlock(block: Anthropic.ContentBlockParam): boolean {
+  return block.type === 'thinking' || block.type === 'redacted_thinking';
+}
+
 /**
  * ヘルパー関数: シンプルなクエリを作成
  *
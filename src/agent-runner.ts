@@ -0,0 +1,1213 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  AgentQuery,
+  AgentQueryBuilder,
+  DEFAULT_AGENT_CONFIG,
+  INTERLEAVED_THINKING_BETA,
+  MIN_THINKING_BUDGET_TOKENS,
+  stripThinkingBlocks,
+} from './agent-query-types';
+import { AgentStreamHandler, MessageAccumulator, toAgentStreamEvent } from './message-stream';
+import { HookManager } from './hook-manager';
+import { RetryOptions, createMessageWithRetry, isRetryableError, withRetry } from './resilient-client';
+import { SessionData, SessionStore, prepareHistoryForResume } from './session-store';
+import { ContextManager } from './context-manager';
+import { ModelRegistry, defaultModelRegistry, isOverloadedError } from './model-registry';
+import { AbortScope, abortable, createAbortScope, toAbortError } from './cancellation';
+import { UsageBudget, UsageRecord, UsageTotals, UsageTracker, checkBudget, sumUsage } from './usage-tracker';
+import type { DefinedTool } from './define-tool';
+import { AgentError, AgentErrorCode, ToolError, toAgentError } from './agent-errors';
+import {
+  Span,
+  SpanAttributes,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  getDefaultTracer,
+  usageAttributes,
+} from './tracing';
+
+/**
+ * ツールハンドラー
+ *
+ * ツールの入力を受け取り、結果を返す関数。
+ * 入力は検証されていないため、型付きの入力を扱う場合は defineTool でスキーマから検証・推論します。
+ * 文字列以外の結果はJSON文字列に変換してモデルに返されます。
+ */
+export type ToolHandler = (input: unknown, context: ToolContext) => unknown | Promise<unknown>;
+
+/**
+ * ツールハンドラーに渡される実行時の情報
+ */
+export interface ToolContext {
+  /** tool_useブロックのID */
+  toolUseId: string;
+
+  /**
+   * 中断用シグナル
+   *
+   * 実行全体の中断やツールの制限時間で中断されます。
+   * シグナルに対応していないハンドラーも、中断時には完了を待たずにエラーとして扱われます。
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * ツール登録時のオプション
+ */
+export interface ToolOptions {
+  /**
+   * 副作用のない読み取り専用ツールかどうか（デフォルト: false）
+   *
+   * 読み取り専用ツールは同じターン内で並行実行され、
+   * それ以外のツールは要求された順に1つずつ実行されます。
+   */
+  readOnly?: boolean;
+
+  /** このツールの制限時間（ミリ秒、省略時は AgentRunnerConfig.toolTimeoutMs） */
+  timeoutMs?: number;
+}
+
+/**
+ * 登録済みツール（定義とハンドラーの組）
+ */
+export interface RegisteredTool {
+  definition: Anthropic.Tool;
+  handler: ToolHandler;
+  readOnly: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * ツールレジストリ
+ *
+ * ツール定義と実行ハンドラーを名前で管理する。
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  /**
+   * ツールを登録
+   */
+  register(definition: Anthropic.Tool, handler: ToolHandler, options: ToolOptions = {}): this {
+    this.tools.set(definition.name, {
+      definition,
+      handler,
+      readOnly: options.readOnly ?? false,
+      timeoutMs: options.timeoutMs,
+    });
+    return this;
+  }
+
+  /**
+   * defineTool で定義したツールを登録
+   */
+  add(...tools: DefinedTool[]): this {
+    for (const tool of tools) {
+      this.register(tool.definition, tool.handler, tool.options);
+    }
+    return this;
+  }
+
+  /**
+   * ツールを取得
+   */
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * ツールが登録されているか確認
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * 登録されているツール名の一覧を取得
+   */
+  list(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * APIに渡すツール定義の一覧を取得
+   */
+  getDefinitions(): Anthropic.Tool[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+}
+
+/**
+ * AgentRunnerの設定
+ */
+export interface AgentRunnerConfig {
+  /** Anthropicクライアント */
+  client: Anthropic;
+
+  /** 使用可能なツール */
+  tools?: ToolRegistry;
+
+  /** システムプロンプト */
+  systemPrompt?: string;
+
+  /**
+   * クエリ設定（model, maxTokens, temperature など。model にはエイリアスも指定可能）
+   *
+   * thinking を指定すると思考ブロックは会話履歴にそのまま残され、次のリクエストで送り返されます。
+   * 思考に対応していないモデル（ModelInfo.supportsThinking が false）には thinking を付けずに送信します。
+   */
+  query?: Partial<AgentQuery>;
+
+  /** モデルのエイリアス解決とフォールバックに使うレジストリ（デフォルト: defaultModelRegistry） */
+  models?: ModelRegistry;
+
+  /** ツール使用ループの最大イテレーション数（デフォルト: 10） */
+  maxIterations?: number;
+
+  /**
+   * 応答が max_tokens で途切れた時に続きを要求する最大回数（デフォルト: 3、0で無効）
+   *
+   * 途切れたテキストは続きの応答と連結され、1つの応答として扱われます。
+   */
+  maxContinuations?: number;
+
+  /** 1回の実行全体の制限時間（ミリ秒、実行ごとに AgentRunOptions.timeoutMs で上書き可能） */
+  timeoutMs?: number;
+
+  /** ツール1回あたりの制限時間（ミリ秒、ツールごとに ToolOptions.timeoutMs で上書き可能） */
+  toolTimeoutMs?: number;
+
+  /** リクエスト・ツール実行・完了時に呼ばれるHook */
+  hooks?: HookManager;
+
+  /** messages.create のリトライ設定 */
+  retry?: RetryOptions;
+
+  /** 会話履歴の保存先（run時にsessionIdを指定すると使用される） */
+  sessionStore?: SessionStore;
+
+  /** コンテキストウィンドウ管理（指定すると閾値を超えた時に古いターンを削減する） */
+  contextManager?: ContextManager;
+
+  /** 使用量の記録先（複数のエージェントで共有すると全体の上限を適用できる） */
+  usageTracker?: UsageTracker;
+
+  /** 1回の実行あたりの使用量の上限 */
+  budget?: UsageBudget;
+
+  /** 使用量の記録に付けるラベル（例: サブエージェント名） */
+  usageLabel?: string;
+
+  /**
+   * 実行・イテレーション・API呼び出し・ツール実行のスパンの記録先
+   * （デフォルト: getDefaultTracer()。環境変数 AGENT_TRACE_FILE を指定すると有効になる）
+   */
+  tracer?: Tracer;
+
+  /** モデルの応答を受け取るたびに呼ばれるコールバック */
+  onResponse?: (response: Anthropic.Message, iteration: number) => void;
+
+  /** 過負荷のためフォールバック先のモデルに切り替える時に呼ばれるコールバック */
+  onModelFallback?: (from: string, to: string, error: unknown) => void;
+}
+
+/**
+ * 実行ごとのオプション
+ */
+export interface AgentRunOptions {
+  /**
+   * セッションID
+   *
+   * 指定すると保存済みの会話履歴に続けて実行し、各ターンをセッションに記録します。
+   */
+  sessionId?: string;
+
+  /**
+   * 中断用シグナル
+   *
+   * 中断されるとモデル呼び出し・ツール実行を打ち切り、
+   * stopReason が 'aborted' の結果（それまでの会話履歴を含む）を返します。
+   */
+  signal?: AbortSignal;
+
+  /** この実行の制限時間（ミリ秒）。超えると signal と同様に中断されます */
+  timeoutMs?: number;
+
+  /** 親スパン（オーケストレーターから委譲された実行をそのスパンの下に記録する場合など） */
+  parentSpan?: Span;
+}
+
+/**
+ * 1回のツール呼び出しの記録
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: unknown;
+  /** モデルに返したtool_resultの内容 */
+  content: string;
+  /** 失敗した場合のエラーメッセージ（tool_resultは is_error: true で返される） */
+  error?: string;
+  /** 失敗した場合のエラーコード */
+  errorCode?: AgentErrorCode;
+}
+
+/**
+ * 実行の停止理由
+ *
+ * APIの stop_reason に加え、最大イテレーション数に達した場合は 'max_iterations'、
+ * 上限超過で打ち切った場合は 'budget_exceeded'、
+ * シグナルや制限時間で中断した場合は 'aborted' になります。
+ */
+export type AgentStopReason =
+  | Anthropic.StopReason
+  | 'max_iterations'
+  | 'budget_exceeded'
+  | 'aborted';
+
+/**
+ * エージェント実行結果
+ */
+export interface AgentRunResult {
+  /** 最終応答のテキスト（最終応答のテキストブロックを改行で連結） */
+  text: string;
+
+  /** この実行でモデルが出力したすべてのテキストブロック（ツール使用中の発言を含む） */
+  textBlocks: string[];
+
+  /** 停止理由 */
+  stopReason: AgentStopReason | null;
+
+  /** 停止理由の補足（上限超過や中断の内容など） */
+  stopDetail?: string;
+
+  /** ツール使用ループのイテレーション数 */
+  iterations: number;
+
+  /** max_tokens で途切れた応答の続きを要求した回数 */
+  continuations: number;
+
+  /** 実行されたツール呼び出し */
+  toolCalls: ToolCallRecord[];
+
+  /** 最終応答を含む会話履歴（コンテキスト削減の影響を受けない完全な記録） */
+  messages: Anthropic.MessageParam[];
+
+  /** コンテキスト削減が行われた回数 */
+  compactions: number;
+
+  /** この実行の使用量と料金 */
+  usage: UsageTotals;
+
+  /** API呼び出しごとの使用量 */
+  usageByIteration: UsageRecord[];
+
+  /** 最終応答（最初の応答を受け取る前に中断した場合は null） */
+  response: Anthropic.Message | null;
+}
+
+/**
+ * 1回の実行中の状態
+ */
+interface RunState {
+  /** 完全な会話履歴（結果・セッションに使用） */
+  messages: Anthropic.MessageParam[];
+  /** APIに送信する会話履歴（コンテキスト削減の対象） */
+  context: Anthropic.MessageParam[];
+  compactions: number;
+  continuations: number;
+  usage: UsageRecord[];
+}
+
+const DEFAULT_MAX_ITERATIONS = 10;
+const DEFAULT_MAX_CONTINUATIONS = 3;
+
+/**
+ * AgentRunner
+ *
+ * ツール使用ループ（tool_use → tool_result → 次の応答）を共通化した実行エンジン。
+ * 1ターン内のすべてのtool_useブロックを実行し、構造化された結果を返す。
+ *
+ * @example
+ * ```typescript
+ * const weatherTool = defineTool({
+ *   name: 'get_weather',
+ *   description: '天気を取得します',
+ *   schema: { type: 'object', properties: { location: { type: 'string' } }, required: ['location'] },
+ *   handler: input => getWeather(input.location),
+ * });
+ * const tools = new ToolRegistry().add(weatherTool);
+ * const runner = new AgentRunner({ client, tools, systemPrompt: 'あなたは天気アシスタントです' });
+ * const result = await runner.run('東京の天気は？');
+ * console.log(result.text);
+ * ```
+ */
+export class AgentRunner {
+  private client: Anthropic;
+  private tools: ToolRegistry;
+  private systemPrompt?: string;
+  private query: Partial<AgentQuery>;
+  private models: ModelRegistry;
+  private maxIterations: number;
+  private maxContinuations: number;
+  private timeoutMs?: number;
+  private toolTimeoutMs?: number;
+  private hooks: HookManager;
+  private retry: RetryOptions;
+  private sessionStore?: SessionStore;
+  private contextManager?: ContextManager;
+  private usageTracker: UsageTracker;
+  private budget?: UsageBudget;
+  private usageLabel?: string;
+  private tracer: Tracer;
+  private onResponse?: (response: Anthropic.Message, iteration: number) => void;
+  private onModelFallback?: (from: string, to: string, error: unknown) => void;
+
+  constructor(config: AgentRunnerConfig) {
+    this.client = config.client;
+    this.tools = config.tools ?? new ToolRegistry();
+    this.systemPrompt = config.systemPrompt;
+    this.query = config.query ?? {};
+    this.models = config.models ?? defaultModelRegistry;
+    this.maxIterations = config.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    this.maxContinuations = config.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS;
+    this.timeoutMs = config.timeoutMs;
+    this.toolTimeoutMs = config.toolTimeoutMs;
+    this.hooks = config.hooks ?? new HookManager();
+    this.retry = config.retry ?? {};
+    this.sessionStore = config.sessionStore;
+    this.contextManager = config.contextManager;
+    this.usageTracker = config.usageTracker ?? new UsageTracker();
+    this.budget = config.budget;
+    this.usageLabel = config.usageLabel;
+    this.tracer = config.tracer ?? getDefaultTracer();
+    this.onResponse = config.onResponse;
+    this.onModelFallback = config.onModelFallback;
+  }
+
+  /**
+   * 使用するモデル（モデルIDまたはエイリアス）を取得
+   */
+  getModel(): string {
+    return this.query.model ?? DEFAULT_AGENT_CONFIG.model;
+  }
+
+  /**
+   * 使用するモデルを変更（次の実行から適用）
+   */
+  setModel(model: string): this {
+    this.query = { ...this.query, model };
+    return this;
+  }
+
+  /**
+   * 登録されているツール定義の一覧を取得
+   */
+  getToolDefinitions(): Anthropic.Tool[] {
+    return this.tools.getDefinitions();
+  }
+
+  /**
+   * エージェントを実行
+   *
+   * @param input - ユーザーメッセージ、または既存の会話履歴
+   */
+  async run(
+    input: string | Anthropic.MessageParam[],
+    options: AgentRunOptions = {}
+  ): Promise<AgentRunResult> {
+    return await this.execute(input, options);
+  }
+
+  /**
+   * エージェントをストリーミングで実行
+   *
+   * 各応答をストリーミングで受信し、テキストやツール入力の差分をイベントとして通知する。
+   * 受信した応答は完成したメッセージに組み立て直してから会話履歴に追加される。
+   *
+   * @example
+   * ```typescript
+   * const result = await runner.stream('こんにちは', (event) => {
+   *   if (event.type === 'text_delta') process.stdout.write(event.text);
+   * });
+   * ```
+   */
+  async stream(
+    input: string | Anthropic.MessageParam[],
+    onEvent: AgentStreamHandler,
+    options: AgentRunOptions = {}
+  ): Promise<AgentRunResult> {
+    return await this.execute(input, options, onEvent);
+  }
+
+  /**
+   * 実行全体を 'agent.run' スパンとして記録しながらツール使用ループを実行
+   */
+  private async execute(
+    input: string | Anthropic.MessageParam[],
+    options: AgentRunOptions,
+    onEvent?: AgentStreamHandler
+  ): Promise<AgentRunResult> {
+    const attributes: SpanAttributes = {
+      'gen_ai.system': 'anthropic',
+      'gen_ai.request.model': this.models.resolve(this.getModel()),
+      'agent.label': this.usageLabel,
+      'agent.session_id': options.sessionId,
+      'agent.max_iterations': this.maxIterations,
+      'agent.streaming': onEvent !== undefined,
+    };
+
+    return await this.tracer.withSpan('agent.run', { parent: options.parentSpan, attributes }, async span => {
+      const result = await this.runLoop(input, options, span, onEvent);
+      span.setAttributes({
+        'agent.stop_reason': result.stopReason ?? undefined,
+        'agent.iterations': result.iterations,
+        'agent.continuations': result.continuations,
+        'agent.compactions': result.compactions,
+        'agent.tool_calls': result.toolCalls.length,
+        ...usageAttributes(result.usage),
+      });
+      // 中断・上限超過で打ち切った場合はエラーとして記録する
+      // （max_iterations は generateStructured のように意図して止める場合があるため対象外）
+      if (result.stopReason === 'aborted' || result.stopReason === 'budget_exceeded') {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: result.stopDetail });
+      }
+      return result;
+    });
+  }
+
+  /**
+   * ツール使用ループ本体
+   *
+   * 1回のモデル応答と、その応答が要求したツールの実行を1つの 'agent.iteration' スパンにまとめる。
+   */
+  private async runLoop(
+    input: string | Anthropic.MessageParam[],
+    options: AgentRunOptions,
+    runSpan: Span,
+    onEvent?: AgentStreamHandler
+  ): Promise<AgentRunResult> {
+    const session = this.openSession(options.sessionId);
+    const messages = joinMessages(
+      session ? prepareHistoryForResume(session.messages) : [],
+      typeof input === 'string' ? [{ role: 'user', content: input }] : input
+    );
+    const historyLength = messages.length;
+    const toolCalls: ToolCallRecord[] = [];
+    const state: RunState = {
+      messages,
+      context: [...messages],
+      compactions: 0,
+      continuations: 0,
+      usage: [],
+    };
+
+    // 履歴に追加し、ターンごとにセッションへ記録
+    const append = (message: Anthropic.MessageParam) => {
+      state.messages.push(message);
+      state.context.push(message);
+      if (session) this.sessionStore!.save({ ...session, messages: state.messages });
+    };
+    if (session) this.sessionStore!.save({ ...session, messages });
+
+    const scope = createAbortScope({
+      signal: options.signal,
+      timeoutMs: options.timeoutMs ?? this.timeoutMs,
+    });
+    const { signal } = scope;
+
+    let iterations = 0;
+    let response: Anthropic.Message | null = null;
+    let budgetExceeded: string | null = null;
+    let aborted: string | null = null;
+    const startIteration = () =>
+      this.tracer.startSpan('agent.iteration', { parent: runSpan, attributes: { 'agent.iteration': iterations } });
+    let iterationSpan = startIteration();
+
+    try {
+      ({ response, budgetExceeded } = await this.requestTurn(state, iterations, signal, iterationSpan, onEvent));
+
+      while (
+        !budgetExceeded &&
+        response.stop_reason === 'tool_use' &&
+        iterations < this.maxIterations
+      ) {
+        iterations++;
+
+        const toolUses = response.content.filter(
+          (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+        );
+
+        // アシスタントの応答を履歴に追加
+        append({ role: 'assistant', content: response.content });
+
+        // すべてのtool_useブロックを実行（中断時も各tool_useに結果を返し、履歴の整合性を保つ）
+        const records = await this.executeToolUses(toolUses, signal, iterationSpan);
+        toolCalls.push(...records);
+
+        const toolResults: Anthropic.ToolResultBlockParam[] = records.map(record => ({
+          type: 'tool_result',
+          tool_use_id: record.id,
+          content: record.content,
+          ...(record.error !== undefined ? { is_error: true } : {}),
+        }));
+
+        append({ role: 'user', content: toolResults });
+        iterationSpan.end();
+        signal.throwIfAborted();
+
+        // 次の応答を取得
+        iterationSpan = startIteration();
+        ({ response, budgetExceeded } = await this.requestTurn(state, iterations, signal, iterationSpan, onEvent));
+      }
+
+      append({ role: 'assistant', content: response.content });
+    } catch (error) {
+      iterationSpan.recordException(error);
+      if (!signal.aborted) {
+        throw error;
+      }
+      aborted = toAbortError(signal).message;
+    } finally {
+      iterationSpan.end();
+      scope.dispose();
+    }
+
+    const maxIterationsReached =
+      !aborted && !budgetExceeded && response?.stop_reason === 'tool_use';
+    const truncatedToolUse = !aborted && response ? findTruncatedToolUse(response) : null;
+    const truncated = truncatedToolUse
+      ? `ツール「${truncatedToolUse.name}」の入力が最大トークン数で途切れたため、実行しませんでした`
+      : null;
+    if (truncated) {
+      const error = new ToolError('TOOL_INPUT_TRUNCATED', truncated, truncatedToolUse!.name);
+      await this.hooks.runHooks('error', {
+        phase: 'tool',
+        error,
+        code: error.code,
+        toolName: error.toolName,
+      });
+    }
+
+    const result: AgentRunResult = {
+      text: textOf(response?.content ?? []).join('\n'),
+      textBlocks: state.messages
+        .slice(historyLength)
+        .flatMap(message =>
+          message.role === 'assistant' && Array.isArray(message.content)
+            ? textOf(message.content)
+            : []
+        ),
+      stopReason: aborted
+        ? 'aborted'
+        : budgetExceeded
+          ? 'budget_exceeded'
+          : maxIterationsReached
+            ? 'max_iterations'
+            : response?.stop_reason ?? null,
+      stopDetail:
+        aborted ??
+        budgetExceeded ??
+        truncated ??
+        (maxIterationsReached ? `最大イテレーション数（${this.maxIterations}）に達しました` : undefined),
+      iterations,
+      continuations: state.continuations,
+      toolCalls,
+      messages,
+      compactions: state.compactions,
+      usage: sumUsage(state.usage),
+      usageByIteration: state.usage,
+      response,
+    };
+
+    await this.hooks.runHooks('run:end', { result });
+    return result;
+  }
+
+  /**
+   * 1ターン分の応答を取得
+   *
+   * テキストの途中で max_tokens に達した場合は、途中までの応答をアシスタントメッセージとして
+   * 続けて送信し（プリフィル）、返ってきた続きを連結して1つの応答にする。
+   * 途中の応答は履歴に追加しないため、会話履歴には連結後の応答だけが残る。
+   */
+  private async requestTurn(
+    state: RunState,
+    iteration: number,
+    signal: AbortSignal,
+    span: Span,
+    onEvent?: AgentStreamHandler
+  ): Promise<{ response: Anthropic.Message; budgetExceeded: string | null }> {
+    let response = await this.createMessage(state, iteration, signal, span, onEvent);
+    let budgetExceeded = this.recordUsage(state, response, iteration);
+
+    for (let i = 0; i < this.maxContinuations && !budgetExceeded; i++) {
+      const prefill = toContinuationPrefill(response);
+      if (!prefill) break;
+
+      const continuation = await this.createMessage(state, iteration, signal, span, onEvent, prefill);
+      budgetExceeded = this.recordUsage(state, continuation, iteration);
+      response = stitchResponses(response, continuation);
+      state.continuations++;
+    }
+
+    this.onResponse?.(response, iteration);
+    return { response, budgetExceeded };
+  }
+
+  /**
+   * 応答の使用量を記録し、上限を超えていればその理由を返す
+   *
+   * この実行の上限（budget）と、共有トラッカー全体の上限の両方を確認する。
+   */
+  private recordUsage(state: RunState, response: Anthropic.Message, iteration: number): string | null {
+    state.usage.push(
+      this.usageTracker.record(response.model, response.usage, {
+        label: this.usageLabel,
+        iteration,
+      })
+    );
+    return checkBudget(sumUsage(state.usage), this.budget) ?? this.usageTracker.checkBudget();
+  }
+
+  /**
+   * セッションを開く（sessionId未指定の場合は null）
+   */
+  private openSession(sessionId?: string): SessionData | null {
+    if (sessionId === undefined) {
+      return null;
+    }
+    if (!this.sessionStore) {
+      throw new Error('sessionIdを使用するにはsessionStoreを設定してください');
+    }
+    return this.sessionStore.open(sessionId);
+  }
+
+  /**
+   * 現在の会話履歴からリクエストを組み立てて送信
+   *
+   * onEventが指定されている場合はストリーミングで受信する。
+   * contextManagerが設定されていれば送信前にコンテキストを削減し、
+   * その後 pre:request、受信後に post:request のHookを実行する。
+   *
+   * @param span - API呼び出しのスパンの親（イテレーションのスパン）
+   * @param prefill - 続きを要求する場合に末尾に付けるアシスタントメッセージ
+   */
+  private async createMessage(
+    state: RunState,
+    iteration: number,
+    signal: AbortSignal,
+    span: Span,
+    onEvent?: AgentStreamHandler,
+    prefill?: Anthropic.MessageParam
+  ): Promise<Anthropic.Message> {
+    const withPrefill = (messages: Anthropic.MessageParam[]) =>
+      prefill ? [...messages, prefill] : messages;
+
+    const builder = new AgentQueryBuilder(this.query)
+      .setModel(this.models.resolve(this.query.model ?? DEFAULT_AGENT_CONFIG.model))
+      .setMessages(withPrefill(state.context));
+
+    if (this.systemPrompt !== undefined) {
+      builder.setSystemPrompt(this.systemPrompt);
+    }
+
+    const definitions = this.tools.getDefinitions();
+    if (definitions.length > 0) {
+      builder.setTools(definitions);
+    }
+
+    let request = builder.build();
+    if (this.contextManager) {
+      // キャッシュのブレークポイントを付与する前の履歴で判定し、履歴にcache_controlを残さない
+      const fit = await this.contextManager.fit({ ...request, messages: state.context }, signal);
+      // 要約の呼び出しも課金されるため、この実行の使用量として記録する（上限は次の応答の記録時に判定）
+      for (const { model, usage } of fit.usage) {
+        state.usage.push(this.usageTracker.record(model, usage, { label: this.usageLabel, iteration }));
+      }
+      if (fit.compacted) {
+        state.context = fit.messages;
+        state.compactions++;
+        request = builder.setMessages(withPrefill(fit.messages)).build();
+      }
+    }
+
+    const { params } = await this.hooks.runHooks('pre:request', { iteration, params: request });
+
+    let response: Anthropic.Message;
+    try {
+      response = await this.sendWithFallback(params, builder.buildHeaders(), iteration, signal, span, onEvent);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      await this.hooks.runHooks('error', { phase: 'request', error: toError(error) });
+      throw error;
+    }
+
+    const post = await this.hooks.runHooks('post:request', { iteration, response });
+    return post.response;
+  }
+
+  /**
+   * リクエストを送信し、モデルが過負荷ならフォールバックチェーンの次のモデルで再送する
+   *
+   * 各モデルでのリトライを使い切った後に切り替えます。
+   * ストリーミングで出力を通知し始めた後のエラーは、出力が重複しないよう切り替えずにそのまま投げます。
+   * モデルごとの呼び出し（リトライを含む）を1つの 'messages.create' スパンとして記録します。
+   */
+  private async sendWithFallback(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    headers: Record<string, string>,
+    iteration: number,
+    signal: AbortSignal,
+    parent: Span,
+    onEvent?: AgentStreamHandler
+  ): Promise<Anthropic.Message> {
+    const chain = this.models.getFallbackChain(params.model);
+
+    for (let i = 0; ; i++) {
+      const { request, requestHeaders } = this.forModel(params, headers, chain[i]);
+      let emitted = false;
+      const span = this.tracer.startSpan('messages.create', {
+        parent,
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'gen_ai.system': 'anthropic',
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.request.model': request.model,
+          'gen_ai.request.max_tokens': request.max_tokens,
+          'gen_ai.request.temperature': request.temperature,
+          'agent.thinking.budget_tokens': request.thinking?.type === 'enabled' ? request.thinking.budget_tokens : undefined,
+          'agent.iteration': iteration,
+          'agent.streaming': onEvent !== undefined,
+        },
+      });
+
+      try {
+        const response = onEvent
+          ? await this.streamMessage(request, requestHeaders, iteration, signal, (event) => {
+              emitted = true;
+              onEvent(event);
+            })
+          : await createMessageWithRetry(this.client, request, { ...this.retry, signal }, requestHeaders);
+        span.setAttributes({
+          'gen_ai.response.id': response.id,
+          'gen_ai.response.model': response.model,
+          'gen_ai.response.finish_reasons': response.stop_reason ? [response.stop_reason] : undefined,
+          ...usageAttributes(this.usageTracker.calculate(response.model, response.usage)),
+        });
+        return response;
+      } catch (error) {
+        span.recordException(error);
+        const next = chain[i + 1];
+        if (!next || emitted || !isOverloadedError(error)) {
+          throw error;
+        }
+        span.setAttribute('agent.fallback_model', next);
+        this.onModelFallback?.(chain[i], next, error);
+      } finally {
+        span.end();
+      }
+    }
+  }
+
+  /**
+   * 送信先のモデルに合わせてリクエストを調整
+   *
+   * max_tokens はモデルの最大出力トークン数を超えないように切り詰める。
+   * 切り詰めた max_tokens に思考の予算が収まらない場合は、応答に残していた分をできるだけ保ったまま予算を減らす
+   * （interleaved thinking では予算が max_tokens を超えてもよいため減らさない）。
+   * 思考に対応していないモデル（フォールバック先など）や、最小の予算も収まらない場合は、thinking と思考ブロック、
+   * interleaved thinking のベータヘッダーを取り除き、max_tokens から思考の予算を差し引いて送る。
+   */
+  private forModel(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    headers: Record<string, string>,
+    model: string
+  ): { request: Anthropic.MessageCreateParamsNonStreaming; requestHeaders: Record<string, string> } {
+    const info = this.models.get(model);
+    const clamp = (maxTokens: number) => (info ? Math.min(maxTokens, info.maxOutputTokens) : maxTokens);
+    const maxTokens = clamp(params.max_tokens);
+
+    const { thinking, ...rest } = params;
+    if (!thinking || (thinking.type !== 'enabled' && info?.supportsThinking !== false)) {
+      return { request: { ...params, model, max_tokens: maxTokens }, requestHeaders: headers };
+    }
+    const budgetTokens = thinking.type === 'enabled' ? thinking.budget_tokens : 0;
+
+    if (thinking.type === 'enabled' && info?.supportsThinking !== false) {
+      if (hasBeta(headers, INTERLEAVED_THINKING_BETA) || budgetTokens < maxTokens) {
+        return { request: { ...params, model, max_tokens: maxTokens }, requestHeaders: headers };
+      }
+      const reserved = Math.min(Math.max(params.max_tokens - budgetTokens, 1), maxTokens - MIN_THINKING_BUDGET_TOKENS);
+      if (reserved >= 1) {
+        return {
+          request: {
+            ...params,
+            model,
+            max_tokens: maxTokens,
+            thinking: { ...thinking, budget_tokens: maxTokens - reserved },
+          },
+          requestHeaders: headers,
+        };
+      }
+    }
+
+    return {
+      request: {
+        ...rest,
+        model,
+        max_tokens: clamp(Math.max(params.max_tokens - budgetTokens, 1)),
+        messages: stripThinkingBlocks(params.messages),
+      },
+      requestHeaders: withoutBeta(headers, INTERLEAVED_THINKING_BETA),
+    };
+  }
+
+  /**
+   * ストリーミングで応答を受信し、完成したメッセージに組み立てる
+   *
+   * 最初のイベントを通知する前に失敗した場合のみリトライする
+   * （途中まで表示した出力が重複しないようにするため）。
+   */
+  private async streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    headers: Record<string, string>,
+    iteration: number,
+    signal: AbortSignal,
+    onEvent: AgentStreamHandler
+  ): Promise<Anthropic.Message> {
+    let emitted = false;
+
+    return await withRetry(
+      async () => {
+        const stream = await this.client.messages.create({ ...params, stream: true }, { signal, headers });
+        const accumulator = new MessageAccumulator();
+
+        for await (const event of stream) {
+          accumulator.apply(event);
+          const agentEvent = toAgentStreamEvent(event, accumulator, iteration);
+          if (agentEvent) {
+            emitted = true;
+            onEvent(agentEvent);
+          }
+        }
+
+        return accumulator.getMessage();
+      },
+      {
+        ...this.retry,
+        signal,
+        isRetryable: (error) => !emitted && (this.retry.isRetryable ?? isRetryableError)(error),
+      }
+    );
+  }
+
+  /**
+   * 1ターン分のtool_useブロックを実行
+   *
+   * 連続する読み取り専用ツールはまとめて並行実行し、
+   * 書き込みを伴うツールは要求された順に1つずつ実行する。
+   * 結果は常に要求された順で返す。
+   */
+  private async executeToolUses(
+    toolUses: Anthropic.ToolUseBlock[],
+    signal: AbortSignal,
+    span: Span
+  ): Promise<ToolCallRecord[]> {
+    const records: ToolCallRecord[] = [];
+    let batch: Anthropic.ToolUseBlock[] = [];
+
+    const flushBatch = async () => {
+      if (batch.length === 0) return;
+      records.push(...(await Promise.all(batch.map(toolUse => this.tracedToolUse(toolUse, signal, span)))));
+      batch = [];
+    };
+
+    for (const toolUse of toolUses) {
+      if (this.tools.get(toolUse.name)?.readOnly) {
+        batch.push(toolUse);
+        continue;
+      }
+
+      await flushBatch();
+      records.push(await this.tracedToolUse(toolUse, signal, span));
+    }
+    await flushBatch();
+
+    return records;
+  }
+
+  /**
+   * 1つのtool_useブロックを 'tool.execute' スパンとして記録しながら実行
+   */
+  private async tracedToolUse(
+    toolUse: Anthropic.ToolUseBlock,
+    signal: AbortSignal,
+    parent: Span
+  ): Promise<ToolCallRecord> {
+    const attributes: SpanAttributes = {
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': toolUse.name,
+      'gen_ai.tool.call.id': toolUse.id,
+      'agent.tool.read_only': this.tools.get(toolUse.name)?.readOnly,
+    };
+
+    return await this.tracer.withSpan('tool.execute', { parent, attributes }, async span => {
+      const record = await this.executeToolUse(toolUse, signal);
+      if (record.error !== undefined) {
+        span.setAttribute('agent.error_code', record.errorCode);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: record.error });
+      }
+      return record;
+    });
+  }
+
+  /**
+   * 1つのtool_useブロックを実行し、記録を返す
+   *
+   * pre:tool Hookで入力の書き換えや実行のブロック、
+   * post:tool Hookで結果の書き換えができる。
+   * 実行が中断済みの場合はハンドラーを呼ばずにエラーとして記録する。
+   */
+  private async executeToolUse(
+    toolUse: Anthropic.ToolUseBlock,
+    signal: AbortSignal
+  ): Promise<ToolCallRecord> {
+    const pre = await this.hooks.runHooks('pre:tool', {
+      toolName: toolUse.name,
+      toolUseId: toolUse.id,
+      input: toolUse.input,
+    });
+    const input = pre.input;
+
+    let result: unknown;
+    let error: AgentError | undefined;
+
+    const tool = this.tools.get(toolUse.name);
+    if (pre.block) {
+      error = new ToolError(
+        'TOOL_BLOCKED',
+        `ツール実行がブロックされました${pre.blockReason ? `: ${pre.blockReason}` : ''}`,
+        toolUse.name
+      );
+    } else if (!tool) {
+      error = new ToolError('UNKNOWN_TOOL', `未知のツール: ${toolUse.name}`, toolUse.name);
+    } else {
+      const scope = createAbortScope({ signal, timeoutMs: tool.timeoutMs ?? this.toolTimeoutMs });
+      try {
+        result = await this.callHandler(tool, input, toolUse.id, scope);
+      } catch (err) {
+        error = toAgentError(err);
+      } finally {
+        scope.dispose();
+      }
+    }
+
+    // ブロックはHook自身の判断なので error Hook の対象外
+    if (error && error.code !== 'TOOL_BLOCKED') {
+      await this.hooks.runHooks('error', {
+        phase: 'tool',
+        error,
+        code: error.code,
+        toolName: toolUse.name,
+      });
+    }
+
+    const post = await this.hooks.runHooks('post:tool', {
+      toolName: toolUse.name,
+      toolUseId: toolUse.id,
+      input,
+      result,
+      error: error?.message,
+      errorCode: error?.code,
+    });
+
+    if (post.error !== undefined) {
+      // Hookがエラーを設定した場合はコードが無ければ TOOL_FAILED とする
+      const errorCode = post.errorCode ?? 'TOOL_FAILED';
+      return {
+        id: toolUse.id,
+        name: toolUse.name,
+        input,
+        content: `エラー [${errorCode}]: ${post.error}`,
+        error: post.error,
+        errorCode,
+      };
+    }
+
+    const content =
+      typeof post.result === 'string' ? post.result : JSON.stringify(post.result) ?? '';
+    return { id: toolUse.id, name: toolUse.name, input, content };
+  }
+
+  /**
+   * ツールハンドラーを呼び出す（中断・制限時間の経過時は完了を待たずにreject）
+   */
+  private async callHandler(
+    tool: RegisteredTool,
+    input: unknown,
+    toolUseId: string,
+    scope: AbortScope
+  ): Promise<unknown> {
+    if (scope.signal.aborted) {
+      throw toAbortError(scope.signal);
+    }
+    const pending = Promise.resolve().then(() =>
+      tool.handler(input, { toolUseId, signal: scope.signal })
+    );
+    return await abortable(pending, scope.signal);
+  }
+}
+
+/**
+ * 会話履歴に新しいメッセージを連結
+ *
+ * 履歴の末尾と追加分の先頭がどちらもuserメッセージの場合は1つにまとめる
+ * （tool_resultで終わった履歴に続けて新しい指示を送る場合など）。
+ */
+function joinMessages(
+  history: Anthropic.MessageParam[],
+  next: Anthropic.MessageParam[]
+): Anthropic.MessageParam[] {
+  const messages = [...history];
+  const [first, ...rest] = next;
+  const last = messages[messages.length - 1];
+
+  if (last?.role === 'user' && first?.role === 'user') {
+    messages[messages.length - 1] = {
+      role: 'user',
+      content: [...toContentBlocks(last.content), ...toContentBlocks(first.content)],
+    };
+    return [...messages, ...rest];
+  }
+
+  return [...messages, ...next];
+}
+
+function toContentBlocks(content: Anthropic.MessageParam['content']): Anthropic.ContentBlockParam[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * 途切れた応答の続きを要求するためのプリフィルを作成
+ *
+ * テキストブロックの途中で max_tokens に達した場合のみ続きを要求できる。
+ * tool_useを含む応答はtool_resultなしに送れないため対象外。
+ * 拡張思考はプリフィルと併用できないため、思考ブロックを含む応答も対象外。
+ * APIは末尾が空白のプリフィルを受け付けないため、末尾の空白は取り除く。
+ */
+function toContinuationPrefill(response: Anthropic.Message): Anthropic.MessageParam | null {
+  const last = response.content[response.content.length - 1];
+  if (
+    response.stop_reason !== 'max_tokens' ||
+    last?.type !== 'text' ||
+    response.content.some(
+      block => block.type === 'tool_use' || block.type === 'thinking' || block.type === 'redacted_thinking'
+    )
+  ) {
+    return null;
+  }
+
+  const text = last.text.trimEnd();
+  if (text.length === 0) {
+    return null;
+  }
+
+  return {
+    role: 'assistant',
+    content: [...response.content.slice(0, -1), { type: 'text', text }],
+  };
+}
+
+/**
+ * 途切れた応答と続きの応答を1つに連結
+ *
+ * 続きの先頭がテキストなら途切れたテキストブロックに連結し、残りのブロックはそのまま後ろに付ける。
+ * 使用量は両方の合計、停止理由は続きの応答のものになる。
+ */
+function stitchResponses(previous: Anthropic.Message, continuation: Anthropic.Message): Anthropic.Message {
+  const head = previous.content.slice(0, -1);
+  const last = previous.content[previous.content.length - 1] as Anthropic.TextBlock;
+  const [first, ...rest] = continuation.content;
+
+  const content: Anthropic.ContentBlock[] =
+    first?.type === 'text'
+      ? [...head, { ...last, text: last.text.trimEnd() + first.text }, ...rest]
+      : [...head, { ...last, text: last.text.trimEnd() }, ...continuation.content];
+
+  return {
+    ...continuation,
+    id: previous.id,
+    content,
+    usage: {
+      ...continuation.usage,
+      input_tokens: previous.usage.input_tokens + continuation.usage.input_tokens,
+      output_tokens: previous.usage.output_tokens + continuation.usage.output_tokens,
+      cache_creation_input_tokens: sumNullable(
+        previous.usage.cache_creation_input_tokens,
+        continuation.usage.cache_creation_input_tokens
+      ),
+      cache_read_input_tokens: sumNullable(
+        previous.usage.cache_read_input_tokens,
+        continuation.usage.cache_read_input_tokens
+      ),
+    },
+  };
+}
+
+/**
+ * 省略可能なトークン数の合計（どちらも null なら null）
+ */
+function sumNullable(a: number | null, b: number | null): number | null {
+  return a === null && b === null ? null : (a ?? 0) + (b ?? 0);
+}
+
+/**
+ * anthropic-beta ヘッダーに指定したベータ機能が含まれているか
+ */
+function hasBeta(headers: Record<string, string>, beta: string): boolean {
+  return Object.entries(headers).some(
+    ([name, value]) => name.toLowerCase() === 'anthropic-beta' && value.split(',').some(item => item.trim() === beta)
+  );
+}
+
+/**
+ * anthropic-beta ヘッダーから指定したベータ機能だけを取り除く（他のヘッダー・ベータ機能は残す）
+ */
+function withoutBeta(headers: Record<string, string>, beta: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() !== 'anthropic-beta') {
+      result[name] = value;
+      continue;
+    }
+    const remaining = value.split(',').map(item => item.trim()).filter(item => item && item !== beta);
+    if (remaining.length > 0) result[name] = remaining.join(',');
+  }
+  return result;
+}
+
+/**
+ * max_tokens で入力が途切れたtool_useブロックを探す
+ */
+function findTruncatedToolUse(response: Anthropic.Message): Anthropic.ToolUseBlock | null {
+  const last = response.content[response.content.length - 1];
+  return response.stop_reason === 'max_tokens' && last?.type === 'tool_use' ? last : null;
+}
+
+/**
+ * ブロックの一覧からテキストブロックの内容を取り出す
+ */
+function textOf(content: Array<Anthropic.ContentBlock | Anthropic.ContentBlockParam>): string[] {
+  return content
+    .filter((block): block is Anthropic.TextBlock | Anthropic.TextBlockParam => block.type === 'text')
+    .map(block => block.text);
+}
+
+/**
+ * 任意の例外値をErrorに変換
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
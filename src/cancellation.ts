@@ -0,0 +1,160 @@
+import { Logger, getDefaultLogger } from './logger';
+
+/**
+ * 中断時に投げられるエラー
+ */
+export class AbortError extends Error {
+  constructor(message = '中断されました') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * 制限時間を超えた時に投げられるエラー
+ */
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`制限時間（${timeoutMs}ms）を超えました`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 中断スコープ
+ *
+ * 親のシグナルと制限時間のどちらかで中断されるシグナルを持つ。
+ * 処理が終わったら dispose() でタイマーとリスナーを解放してください。
+ */
+export interface AbortScope {
+  signal: AbortSignal;
+  dispose(): void;
+}
+
+/**
+ * 親のシグナルと制限時間を組み合わせた中断スコープを作成
+ *
+ * @example
+ * ```typescript
+ * const scope = createAbortScope({ signal: options.signal, timeoutMs: 30_000 });
+ * try {
+ *   await client.messages.create(params, { signal: scope.signal });
+ * } finally {
+ *   scope.dispose();
+ * }
+ * ```
+ */
+export function createAbortScope(options: { signal?: AbortSignal; timeoutMs?: number } = {}): AbortScope {
+  const controller = new AbortController();
+  const { signal: parent, timeoutMs } = options;
+
+  const onParentAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/**
+ * シグナルが中断されたら、Promiseの完了を待たずにreject する
+ *
+ * シグナルに対応していない処理（応答しないツールなど）で待ち続けないようにするために使います。
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(toAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * 中断されたシグナルの理由をErrorとして取得
+ *
+ * 理由を指定せずに abort() された場合（DOMExceptionのAbortError）は AbortError に置き換えます。
+ */
+export function toAbortError(signal: AbortSignal): Error {
+  const reason = signal.reason;
+  if (reason instanceof Error && (reason.name !== 'AbortError' || reason instanceof AbortError)) {
+    return reason;
+  }
+  return new AbortError();
+}
+
+/**
+ * 中断できる待機
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const wait = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return abortable(wait, signal).finally(() => clearTimeout(timer));
+}
+
+/**
+ * SIGINT（Ctrl+C）で中断されるシグナルを作成
+ *
+ * 1回目のSIGINTで実行中の処理を中断し、2回目でプロセスを終了します。
+ * 中断の通知はロガー（デフォルト: 共通のロガー）に警告として出力するため、標準出力には書き込みません。
+ *
+ * @example
+ * ```typescript
+ * const interrupt = interruptOnSigint();
+ * try {
+ *   await agent.run('...', { signal: interrupt.signal });
+ * } finally {
+ *   interrupt.dispose();
+ * }
+ * ```
+ */
+export function interruptOnSigint(options: { logger?: Logger } = {}): AbortScope {
+  const controller = new AbortController();
+
+  const onSigint = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    (options.logger ?? getDefaultLogger()).warn('⏹️  中断しています...（もう一度 Ctrl+C で強制終了）');
+    controller.abort(new AbortError('SIGINTにより中断されました'));
+  };
+  process.on('SIGINT', onSigint);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off('SIGINT', onSigint);
+    },
+  };
+}
@@ -0,0 +1,375 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * カセットの動作モード
+ *
+ * - record: 実際のAPIを呼び出し、リクエストと応答の組をカセットに保存する（既存のカセットは上書き）
+ * - replay: APIを呼び出さず、カセットに保存された応答を返す
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * カセットに保存されるリクエストと応答の組
+ */
+export interface CassetteEntry {
+  request: {
+    method: string;
+    /** URLのパスとクエリ（例: '/v1/messages', '/v1/messages/count_tokens'） */
+    path: string;
+    /** 正規化したリクエストボディ */
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** 応答ボディ（ストリーミングの場合はSSEのテキストそのまま） */
+    body: string;
+  };
+}
+
+/**
+ * カセットファイルの形式
+ */
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Cassetteの設定
+ */
+export interface CassetteOptions {
+  /** カセットファイルのパス */
+  path: string;
+
+  /** 動作モード（デフォルト: カセットファイルがあれば 'replay'、なければ 'record'） */
+  mode?: CassetteMode;
+
+  /**
+   * 照合前にリクエストボディを正規化する関数（オブジェクトのキーの並び順は常に揃えます）
+   *
+   * 実行ごとに変わる値（日時や一時ディレクトリのパスなど）を含む場合に置き換えてください。
+   */
+  normalize?: (body: unknown) => unknown;
+
+  /** record モードで使う fetch（デフォルト: グローバルの fetch） */
+  fetch?: typeof fetch;
+}
+
+/** 保存する応答ヘッダー（APIキーなどのリクエストヘッダーは保存しない） */
+const RECORDED_HEADERS = ['content-type', 'request-id'];
+
+/**
+ * Cassette
+ *
+ * Anthropicクライアントの fetch を置き換え、APIとのやり取りを記録・再生する。
+ * 再生時はリクエストボディを正規化して照合し、一致する記録がなければ
+ * 差分の位置を含むエラー（400、リトライ対象外）で失敗します。
+ * 同じリクエストが複数回記録されている場合は記録された順に返すため、並列実行の順序が変わっても再生できます。
+ *
+ * @example
+ * ```typescript
+ * // 1回目は記録、2回目以降は再生（APIキーなしで実行できる）
+ * const cassette = new Cassette({ path: 'cassettes/sandboxed-demo.json' });
+ * const client = createResilientClient(withCassette(cassette, { apiKey: process.env.ANTHROPIC_API_KEY }));
+ * await new SandboxedClaudeAgent('', workDir, { client }).run('...');
+ * cassette.assertAllUsed();
+ * ```
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+  private entries: CassetteEntry[];
+  private used = new Set<number>();
+  private normalizeBody: (body: unknown) => unknown;
+  private realFetch: typeof fetch;
+
+  constructor(options: CassetteOptions) {
+    this.path = path.resolve(options.path);
+    this.mode = options.mode ?? (fs.existsSync(this.path) ? 'replay' : 'record');
+    this.normalizeBody = options.normalize ?? (body => body);
+    this.realFetch = options.fetch ?? fetch;
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(this.path)) {
+        throw new Error(`カセットが見つかりません: ${this.path}（record モードで記録してください）`);
+      }
+      const file = JSON.parse(fs.readFileSync(this.path, 'utf-8')) as CassetteFile;
+      this.entries = file.entries;
+    } else {
+      this.entries = [];
+    }
+  }
+
+  /**
+   * Anthropicクライアントに渡す fetch
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = await this.toRecordedRequest(input, init);
+    return this.mode === 'replay'
+      ? this.replay(request)
+      : await this.record(request, input, init);
+  };
+
+  /**
+   * 記録済みのやり取りの一覧を取得
+   */
+  getEntries(): CassetteEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * 再生で使われなかった記録の一覧を取得
+   */
+  getUnusedEntries(): CassetteEntry[] {
+    return this.entries.filter((_, index) => !this.used.has(index));
+  }
+
+  /**
+   * replay モードですべての記録が使われたことを確認（使われなかった記録があれば例外）
+   */
+  assertAllUsed(): void {
+    const unused = this.getUnusedEntries();
+    if (this.mode === 'replay' && unused.length > 0) {
+      throw new Error(
+        `カセットの記録のうち${unused.length}件が使われませんでした: ` +
+          unused.map(entry => `${entry.request.method} ${entry.request.path}`).join(', ')
+      );
+    }
+  }
+
+  /**
+   * 記録された応答を返す
+   */
+  private replay(request: CassetteEntry['request']): Response {
+    const key = requestKey(request);
+    const index = this.entries.findIndex(
+      (entry, i) => !this.used.has(i) && requestKey(entry.request) === key
+    );
+
+    // 一致する記録がなければ、その理由をエラーのメッセージとして返す（リトライ対象外）
+    if (index === -1) {
+      const message = this.describeMismatch(request);
+      return new Response(
+        JSON.stringify({ type: 'error', error: { type: 'invalid_request_error', message } }),
+        { status: 400, headers: { 'content-type': 'application/json', 'x-should-retry': 'false' } }
+      );
+    }
+
+    this.used.add(index);
+    const { status, headers, body } = this.entries[index].response;
+    return new Response(body, { status, headers });
+  }
+
+  /**
+   * 実際のAPIを呼び出し、応答を記録する
+   *
+   * ストリーミングの応答はそのまま呼び出し元に流し、複製したボディを読み終えた時点で保存する。
+   */
+  private async record(
+    request: CassetteEntry['request'],
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> {
+    const response = await this.realFetch(input, init);
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    // ボディの読み込みに失敗した場合（中断など）は記録しない
+    response
+      .clone()
+      .text()
+      .then(body => {
+        this.entries.push({ request, response: { status: response.status, headers, body } });
+        this.save();
+      })
+      .catch(() => undefined);
+
+    return response;
+  }
+
+  /**
+   * カセットファイルに保存
+   */
+  private save(): void {
+    const file: CassetteFile = { version: 1, entries: this.entries };
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(this.path, JSON.stringify(file, null, 2), 'utf-8');
+  }
+
+  /**
+   * 照合用にリクエストを記録形式に変換
+   */
+  private async toRecordedRequest(
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<CassetteEntry['request']> {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+    const rawBody =
+      typeof init?.body === 'string'
+        ? init.body
+        : input instanceof Request
+          ? await input.clone().text()
+          : '';
+
+    let body: unknown = rawBody;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : null;
+    } catch {
+      // JSON以外のボディは文字列のまま照合する
+    }
+
+    return {
+      method: method.toUpperCase(),
+      path: url.pathname + url.search,
+      body: sortKeys(this.normalizeBody(body)),
+    };
+  }
+
+  /**
+   * 一致する記録がない理由を説明する
+   */
+  private describeMismatch(request: CassetteEntry['request']): string {
+    const header = `カセットに一致するリクエストがありません: ${request.method} ${request.path}（${this.path}）`;
+    const candidate = this.entries.find(
+      (entry, i) =>
+        !this.used.has(i) && entry.request.method === request.method && entry.request.path === request.path
+    );
+    if (!candidate) {
+      return `${header}\n同じエンドポイントの未使用の記録がありません（記録し直してください）`;
+    }
+
+    const difference = findDifference(candidate.request.body, request.body);
+    return (
+      `${header}\n次の未使用の記録と ${difference.path} が異なります\n` +
+      `  記録: ${preview(difference.expected)}\n` +
+      `  実際: ${preview(difference.actual)}`
+    );
+  }
+}
+
+/**
+ * クライアントの設定に Cassette の fetch を組み込む
+ *
+ * replay モードではAPIキーが未設定でも動作するよう、ダミーのキーを補います。
+ */
+export function withCassette<T extends NonNullable<ConstructorParameters<typeof Anthropic>[0]>>(
+  cassette: Cassette | null | undefined,
+  options: T
+): T {
+  if (!cassette) {
+    return options;
+  }
+  return {
+    ...options,
+    fetch: cassette.fetch,
+    ...(cassette.mode === 'replay' ? { apiKey: options.apiKey || 'cassette-replay' } : {}),
+  };
+}
+
+const envCassettes = new Map<string, Cassette>();
+
+/**
+ * 環境変数で指定されたカセットを取得（未指定なら null）
+ *
+ * - ANTHROPIC_CASSETTE: カセットファイルのパス
+ * - ANTHROPIC_CASSETTE_MODE: 'record' または 'replay'（省略時はファイルの有無で決定）
+ *
+ * 同じパスには同じインスタンスを返すため、1つのプロセス内の複数のクライアントで1つのカセットを共有します。
+ */
+export function cassetteFromEnv(env: NodeJS.ProcessEnv = process.env): Cassette | null {
+  const cassettePath = env.ANTHROPIC_CASSETTE;
+  if (!cassettePath) {
+    return null;
+  }
+
+  const mode = env.ANTHROPIC_CASSETTE_MODE;
+  if (mode !== undefined && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`ANTHROPIC_CASSETTE_MODE は 'record' または 'replay' を指定してください: ${mode}`);
+  }
+
+  const key = path.resolve(cassettePath);
+  let cassette = envCassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette({ path: key, mode });
+    envCassettes.set(key, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * APIキーまたは再生用のカセットのどちらかが用意されているか
+ *
+ * デモの実行前チェックに使います。
+ */
+export function hasApiAccess(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.ANTHROPIC_API_KEY) || cassetteFromEnv(env)?.mode === 'replay';
+}
+
+/**
+ * リクエストの照合キー
+ */
+function requestKey(request: CassetteEntry['request']): string {
+  return `${request.method} ${request.path} ${JSON.stringify(request.body)}`;
+}
+
+/**
+ * オブジェクトのキーを再帰的に並べ替える（照合をキーの順序に依存させないため）
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * 2つの値で最初に異なる位置を探す
+ */
+function findDifference(
+  expected: unknown,
+  actual: unknown,
+  at = '$'
+): { path: string; expected: unknown; actual: unknown } {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      if (JSON.stringify(expected[i]) !== JSON.stringify(actual[i])) {
+        return findDifference(expected[i], actual[i], `${at}[${i}]`);
+      }
+    }
+  } else if (
+    typeof expected === 'object' && expected !== null && !Array.isArray(expected) &&
+    typeof actual === 'object' && actual !== null && !Array.isArray(actual)
+  ) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      const e = (expected as Record<string, unknown>)[key];
+      const a = (actual as Record<string, unknown>)[key];
+      if (JSON.stringify(e) !== JSON.stringify(a)) {
+        return findDifference(e, a, `${at}.${key}`);
+      }
+    }
+  }
+  return { path: at, expected, actual };
+}
+
+/**
+ * 差分表示用に値を短く整形
+ */
+function preview(value: unknown): string {
+  const text = value === undefined ? '（なし）' : JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
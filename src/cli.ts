@@ -0,0 +1,708 @@
+#!/usr/bin/env node
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { AgentRunResult, AgentRunner, AgentStopReason } from './agent-runner';
+import { AgentStreamHandler } from './message-stream';
+import { MIN_THINKING_BUDGET_TOKENS, thinkingQuery } from './agent-query-types';
+import { AgentRepl } from './repl';
+import { SandboxedAgentOptions, SandboxedClaudeAgent } from './sandboxed-agent';
+import { createTodoWriteTool, runAgentWithTodos } from './todo-agent';
+import { DEFAULT_SUB_AGENTS, SubAgentOrchestrator } from './sub-agent-example';
+import { createResilientClient } from './resilient-client';
+import { TodoManager } from './todo-manager';
+import { formatUsage } from './usage-tracker';
+import { interruptOnSigint } from './cancellation';
+import { hasApiAccess } from './cassette';
+import { SessionStore } from './session-store';
+import {
+  Transcript,
+  renderMarkdown,
+  transcriptFromOrchestration,
+  transcriptFromRun,
+  transcriptFromSession,
+  writeTranscript,
+} from './transcript';
+import { isAgentError, toAgentError } from './agent-errors';
+import { createLoggerFromEnv, setDefaultLogger } from './logger';
+import {
+  AgentConfig,
+  AgentConfigLayer,
+  CONFIG_FILE_NAME,
+  ConfigError,
+  createConfigHooks,
+  createModelRegistry,
+  createThinkingOptions,
+  loadAgentConfig,
+} from './agent-config';
+
+dotenv.config();
+
+/**
+ * 終了コード
+ *
+ * - success: 正常終了
+ * - failure: 実行時のエラー、または実行が最後まで完了しなかった（上限超過・打ち切りなど）
+ * - usage: コマンド・フラグの指定が誤っている
+ * - interrupted: Ctrl+C などで中断された
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  interrupted: 130,
+} as const;
+
+/**
+ * サブコマンドに渡されるオプション
+ */
+export interface CliOptions {
+  /** 設定ファイル・環境変数・フラグをマージした設定 */
+  config: AgentConfig;
+  /** 有効にするツール名 */
+  tools?: string[];
+  /** 結果を標準出力にJSONで出力する */
+  json: boolean;
+  sessionId?: string;
+  /** 実行記録の書き出し先（.html は HTML、それ以外は Markdown） */
+  transcript?: string;
+}
+
+type FlagName =
+  | 'workdir'
+  | 'model'
+  | 'max-iterations'
+  | 'system'
+  | 'tools'
+  | 'json'
+  | 'session'
+  | 'config'
+  | 'transcript'
+  | 'thinking'
+  | 'show-thinking';
+
+/**
+ * 解析済みのフラグ（設定の読み込み前）
+ */
+interface ParsedCommand {
+  command: CommandSpec;
+  prompt: string;
+  /** 設定に上書きするフラグ（--workdir, --model など） */
+  overrides: AgentConfigLayer;
+  /** --config で指定した設定ファイル */
+  configPath?: string;
+  options: Omit<CliOptions, 'config'>;
+}
+
+/**
+ * サブコマンドの定義
+ */
+interface CommandSpec {
+  /** ヘルプに表示する説明 */
+  summary: string;
+  /** プロンプトを受け取るか */
+  takesPrompt: boolean;
+  /** APIを呼び出さないか（APIキーなしで実行できる） */
+  offline?: boolean;
+  /** 指定できるフラグ */
+  flags: FlagName[];
+  /** 他のコマンドにはあるが指定できないフラグと、その理由（ヘルプに表示する） */
+  rejectedFlags?: Partial<Record<FlagName, string>>;
+  /** 実行して終了コードを返す */
+  run: (prompt: string, options: CliOptions, signal: AbortSignal) => Promise<number>;
+}
+
+/**
+ * コマンド・フラグの指定の誤り（ヘルプを添えて終了コード2で終了する）
+ */
+class CliUsageError extends Error {
+  constructor(message: string, readonly command?: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const PROGRAM = 'claude-agent';
+
+const FLAG_HELP: Record<FlagName, string> = {
+  config: '-c, --config <file>       設定ファイル（デフォルト: カレントディレクトリから遡って探す .agentrc.json）',
+  workdir: '-w, --workdir <dir>       作業ディレクトリ（設定の sandbox.workDir より優先）',
+  model: '-m, --model <model>       モデルIDまたはエイリアス（例: fast, default, smart）',
+  'max-iterations': '-n, --max-iterations <n>  ツール使用の最大回数',
+  system: '-s, --system <prompt>     システムプロンプト',
+  tools: '-t, --tools <names>       有効にするツール（カンマ区切り、例: read_file,list_files）',
+  json: '    --json                結果をJSONで標準出力に出力（進捗表示は標準エラー出力へ）',
+  session: '    --session <id>        セッションIDを指定して会話を保存・再開',
+  transcript: '    --transcript <file>   実行記録を書き出す（.html はHTML、それ以外はMarkdown）',
+  thinking: '    --thinking <budget>   拡張思考を有効にする（思考のトークン予算、1024以上）',
+  'show-thinking': '    --show-thinking       思考の内容を表示し、実行記録にも含める',
+};
+
+const COMMANDS: Record<string, CommandSpec> = {
+  chat: {
+    summary: '対話REPLを開始する（/help でコマンド一覧）',
+    takesPrompt: false,
+    flags: ['config', 'workdir', 'model', 'max-iterations', 'system', 'tools', 'session', 'thinking', 'show-thinking'],
+    run: async (_prompt, options) => {
+      const repl = new AgentRepl(process.env.ANTHROPIC_API_KEY ?? '', options.config.sandbox.workDir, {
+        ...sandboxedAgentOptions(options),
+        showThinking: options.config.thinking.show,
+        sessionId: options.sessionId,
+      });
+      await repl.start();
+      return EXIT_CODES.success;
+    },
+  },
+
+  run: {
+    summary: 'ファイル操作とTodoのツールを持つエージェントを1回実行し、応答をストリーミング表示する',
+    takesPrompt: true,
+    flags: [
+      'config', 'workdir', 'model', 'max-iterations', 'system', 'tools', 'json', 'session', 'transcript',
+      'thinking', 'show-thinking',
+    ],
+    run: async (prompt, options, signal) => {
+      let todos: TodoManager | undefined;
+      const agent: SandboxedClaudeAgent = new SandboxedClaudeAgent(
+        process.env.ANTHROPIC_API_KEY ?? '',
+        options.config.sandbox.workDir,
+        {
+          ...sandboxedAgentOptions(options),
+          tools: [createTodoWriteTool(() => (todos ??= createTodoManager(agent, options.sessionId)))],
+          verbose: false,
+        }
+      );
+
+      const result = await agent.runStreaming(prompt, streamHandler(options), {
+        sessionId: options.sessionId,
+        signal,
+      });
+      return reportRun(result, options);
+    },
+  },
+
+  sandbox: {
+    summary: 'サンドボックス化エージェントを実行し、ツール呼び出しを逐一表示する',
+    takesPrompt: true,
+    flags: [
+      'config', 'workdir', 'model', 'max-iterations', 'system', 'tools', 'json', 'session', 'transcript',
+      'thinking', 'show-thinking',
+    ],
+    run: async (prompt, options, signal) => {
+      const agent = new SandboxedClaudeAgent(process.env.ANTHROPIC_API_KEY ?? '', options.config.sandbox.workDir, {
+        ...sandboxedAgentOptions(options),
+        showThinking: options.config.thinking.show,
+      });
+      const result = await agent.run(prompt, { sessionId: options.sessionId, signal });
+      if (!options.json) {
+        console.log('🤖 エージェントの応答:', result.text || '応答がありません');
+      }
+      return reportRun(result, options, { quiet: true });
+    },
+  },
+
+  todo: {
+    summary: 'Todoリストで進捗を管理しながらエージェントを実行する',
+    takesPrompt: true,
+    flags: [
+      'config', 'workdir', 'model', 'max-iterations', 'system', 'json', 'session', 'transcript',
+      'thinking', 'show-thinking',
+    ],
+    rejectedFlags: {
+      tools: 'todo_write 以外のツールを持たないため',
+    },
+    run: async (prompt, options, signal) => {
+      const { config } = options;
+      const result = await runAgentWithTodos(prompt, {
+        workDir: config.sandbox.workDir,
+        model: config.model,
+        models: createModelRegistry(config),
+        maxTokens: config.limits.maxOutputTokens,
+        thinking: createThinkingOptions(config),
+        showThinking: config.thinking.show,
+        hooks: createConfigHooks(config),
+        maxIterations: config.limits.maxIterations,
+        systemPrompt: config.systemPrompt,
+        budget: config.limits.budget,
+        timeoutMs: config.limits.timeoutMs,
+        sessionId: options.sessionId,
+        signal,
+        // --json の時は標準出力をJSON専用にするため、最終応答とTodo一覧は標準エラー出力へ
+        output: options.json ? process.stderr : process.stdout,
+      });
+      const { todoManager, ...run } = result;
+      return reportRun(run, options, { quiet: true, extra: { todos: todoManager.getAll() } });
+    },
+  },
+
+  orchestrate: {
+    summary: 'リクエストを分解してサブエージェント（設定の subAgents、省略時は標準の4種）に委譲する',
+    takesPrompt: true,
+    flags: ['config', 'model', 'json', 'transcript', 'thinking', 'show-thinking'],
+    rejectedFlags: {
+      workdir: 'サブエージェントはファイルを操作しないため',
+      session: 'サブエージェントごとの会話を保存・再開できないため',
+    },
+    run: async (prompt, options, signal) => {
+      const { config } = options;
+      const orchestrator = new SubAgentOrchestrator(process.env.ANTHROPIC_API_KEY ?? '', {
+        model: config.model,
+        models: createModelRegistry(config),
+        thinking: createThinkingOptions(config),
+        showThinking: config.thinking.show,
+        hooks: createConfigHooks(config),
+        budget: config.limits.budget,
+        subAgentTimeoutMs: config.limits.timeoutMs ?? 120_000,
+      });
+      (config.subAgents ?? DEFAULT_SUB_AGENTS).forEach(subAgent => orchestrator.registerSubAgent(subAgent));
+
+      const result = await orchestrator.orchestrate(prompt, { signal });
+      saveTranscript(transcriptFromOrchestration(prompt, result, { showThinking: config.thinking.show }), options);
+      const failed = result.results.filter(r => r.error);
+      if (options.json) {
+        writeJson({
+          text: result.text,
+          stopReason: result.stopReason,
+          stopDetail: result.stopDetail,
+          plan: result.plan,
+          results: result.results.map(({ run, ...rest }) => ({ ...rest, usage: run?.usage })),
+          cost: result.cost,
+        });
+      } else {
+        if (result.synthesis) {
+          console.log('\n📄 最終結果:\n', result.text);
+        } else {
+          console.error(`⚠️  停止理由: ${result.stopReason}（${result.stopDetail}）`);
+        }
+        failed.forEach(r => console.error(`❌ [${r.agentName}] エラー [${r.errorCode}]: ${r.error}`));
+      }
+      if (result.stopReason === 'aborted') {
+        return EXIT_CODES.interrupted;
+      }
+      return failed.length > 0 ? EXIT_CODES.failure : exitCodeFor(result.stopReason);
+    },
+  },
+
+  query: {
+    summary: 'ツールを使わずにモデルへ1回だけ問い合わせる',
+    takesPrompt: true,
+    flags: ['config', 'workdir', 'model', 'system', 'json', 'session', 'transcript', 'thinking', 'show-thinking'],
+    rejectedFlags: {
+      tools: 'ツールを使わずに問い合わせるため',
+    },
+    run: async (prompt, options, signal) => {
+      const { config } = options;
+      const thinking = createThinkingOptions(config);
+      const runner = new AgentRunner({
+        client: createResilientClient({ apiKey: process.env.ANTHROPIC_API_KEY }),
+        systemPrompt: config.systemPrompt,
+        query: {
+          model: config.model,
+          maxTokens: config.limits.maxOutputTokens ?? 4096 + (thinking?.budgetTokens ?? 0),
+          ...thinkingQuery(thinking),
+        },
+        models: createModelRegistry(config),
+        hooks: createConfigHooks(config),
+        budget: config.limits.budget,
+        timeoutMs: config.limits.timeoutMs,
+        // セッションは作業ディレクトリに保存する
+        sessionStore: SessionStore.forWorkDir(config.sandbox.workDir),
+      });
+      const result = await runner.stream(prompt, streamHandler(options), { sessionId: options.sessionId, signal });
+      return reportRun(result, options);
+    },
+  },
+
+  export: {
+    summary: '保存済みのセッション（--session）をMarkdownまたはHTMLに書き出す（--transcript 省略時は標準出力にMarkdown）',
+    takesPrompt: false,
+    offline: true,
+    flags: ['config', 'workdir', 'session', 'transcript', 'show-thinking'],
+    run: async (_prompt, options) => {
+      if (!options.sessionId) {
+        throw new CliUsageError('--session でセッションIDを指定してください', 'export');
+      }
+      const session = SessionStore.forWorkDir(options.config.sandbox.workDir).load(options.sessionId);
+      if (!session) {
+        console.error(`❌ セッションが見つかりません: ${options.sessionId}`);
+        return EXIT_CODES.failure;
+      }
+
+      const transcript = transcriptFromSession(session, { showThinking: options.config.thinking.show });
+      if (options.transcript) {
+        saveTranscript(transcript, options);
+      } else {
+        process.stdout.write(renderMarkdown(transcript));
+      }
+      return EXIT_CODES.success;
+    },
+  },
+};
+
+/**
+ * CLIを実行して終了コードを返す
+ *
+ * @param argv コマンド名以降の引数（例: ['run', '--json', 'hello.txt を作成して']）
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [commandName, ...rest] = argv;
+
+  if (!commandName || commandName === '-h' || commandName === '--help' || commandName === 'help') {
+    console.log(globalHelp());
+    return commandName ? EXIT_CODES.success : EXIT_CODES.usage;
+  }
+
+  let parsed: ParsedCommand | null;
+  try {
+    parsed = await parseCommand(commandName, rest);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(error.command ? commandHelp(error.command) : globalHelp());
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+  if (!parsed) {
+    console.log(commandHelp(commandName));
+    return EXIT_CODES.success;
+  }
+  const { command, prompt } = parsed;
+
+  let options: CliOptions;
+  try {
+    const { config } = loadAgentConfig({ configPath: parsed.configPath, overrides: parsed.overrides });
+    options = { ...parsed.options, config };
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+
+  if (!command.offline && !hasApiAccess()) {
+    console.error('❌ エラー: ANTHROPIC_API_KEYが設定されていません');
+    console.error('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+    console.error('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
+    return EXIT_CODES.failure;
+  }
+
+  // --json の時は標準出力をJSON専用にするため、各モジュールのログを標準エラー出力に回す
+  if (options.json) {
+    setDefaultLogger(createLoggerFromEnv(process.env, { stream: process.stderr }));
+  }
+
+  // chat はREPL自身が Ctrl+C を扱う
+  const interrupt = commandName === 'chat' ? null : interruptOnSigint();
+  try {
+    return await command.run(prompt, options, interrupt?.signal ?? new AbortController().signal);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(commandHelp(commandName));
+      return EXIT_CODES.usage;
+    }
+    // APIのエラーなどコードを持たない例外は code なしで出力する
+    const code = isAgentError(error) ? error.code : undefined;
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      writeJson({ error: { code, message } });
+    } else {
+      console.error(`\n❌ エラー${code ? ` [${code}]` : ''}: ${message}`);
+    }
+    if (code === 'UNKNOWN_TOOL') {
+      return EXIT_CODES.usage;
+    }
+    return toAgentError(error).code === 'ABORTED' ? EXIT_CODES.interrupted : EXIT_CODES.failure;
+  } finally {
+    interrupt?.dispose();
+  }
+}
+
+/**
+ * サブコマンドの引数を解析する（--help の場合は null）
+ */
+async function parseCommand(
+  commandName: string,
+  args: string[]
+): Promise<ParsedCommand | null> {
+  const command = COMMANDS[commandName];
+  if (!command) {
+    throw new CliUsageError(`不明なコマンドです: ${commandName}`);
+  }
+
+  let parsed: ReturnType<typeof parseFlags>;
+  try {
+    parsed = parseFlags(args);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error), commandName);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return null;
+  }
+
+  const unsupported = (Object.keys(values) as (FlagName | 'help')[]).filter(
+    (name): name is FlagName => name !== 'help' && !command.flags.includes(name)
+  );
+  if (unsupported.length > 0) {
+    const reasons = unsupported.flatMap(name => {
+      const reason = command.rejectedFlags?.[name];
+      return reason ? [`--${name}: ${reason}`] : [];
+    });
+    throw new CliUsageError(
+      `${commandName} では ${unsupported.map(name => `--${name}`).join(', ')} を指定できません` +
+        (reasons.length > 0 ? `（${reasons.join('、')}）` : ''),
+      commandName
+    );
+  }
+
+  let maxIterations: number | undefined;
+  if (values['max-iterations'] !== undefined) {
+    maxIterations = Number(values['max-iterations']);
+    if (!Number.isInteger(maxIterations) || maxIterations < 0) {
+      throw new CliUsageError(`--max-iterations には0以上の整数を指定してください: ${values['max-iterations']}`, commandName);
+    }
+  }
+
+  let thinkingBudget: number | undefined;
+  if (values.thinking !== undefined) {
+    thinkingBudget = Number(values.thinking);
+    if (!Number.isInteger(thinkingBudget) || thinkingBudget < MIN_THINKING_BUDGET_TOKENS) {
+      throw new CliUsageError(
+        `--thinking には${MIN_THINKING_BUDGET_TOKENS}以上の整数を指定してください: ${values.thinking}`,
+        commandName
+      );
+    }
+  }
+
+  let prompt = positionals.join(' ').trim();
+  if (!command.takesPrompt && prompt) {
+    throw new CliUsageError(`${commandName} はプロンプトを受け取りません`, commandName);
+  }
+  // プロンプトを省略した場合はパイプで渡された標準入力を使う
+  if (command.takesPrompt && !prompt && !process.stdin.isTTY) {
+    prompt = (await readStdin()).trim();
+  }
+  if (command.takesPrompt && !prompt) {
+    throw new CliUsageError('プロンプトを指定してください', commandName);
+  }
+
+  // フラグは設定ファイル・環境変数より優先する
+  const overrides: AgentConfigLayer = {};
+  if (values.model !== undefined) overrides.model = values.model;
+  if (values.system !== undefined) overrides.systemPrompt = values.system;
+  if (values.workdir !== undefined) overrides.sandbox = { workDir: path.resolve(values.workdir) };
+  if (maxIterations !== undefined) overrides.limits = { maxIterations };
+  if (thinkingBudget !== undefined) overrides.thinking = { budgetTokens: thinkingBudget };
+  if (values['show-thinking']) overrides.thinking = { ...overrides.thinking, show: true };
+
+  return {
+    command,
+    prompt,
+    overrides,
+    configPath: values.config,
+    options: {
+      tools: values.tools?.split(',').map(name => name.trim()).filter(Boolean),
+      json: values.json ?? false,
+      sessionId: values.session,
+      transcript: values.transcript,
+    },
+  };
+}
+
+function parseFlags(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      workdir: { type: 'string', short: 'w' },
+      model: { type: 'string', short: 'm' },
+      'max-iterations': { type: 'string', short: 'n' },
+      system: { type: 'string', short: 's' },
+      tools: { type: 'string', short: 't' },
+      json: { type: 'boolean' },
+      session: { type: 'string' },
+      transcript: { type: 'string' },
+      thinking: { type: 'string' },
+      'show-thinking': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+/**
+ * エージェントの実行結果を出力し、終了コードを返す
+ *
+ * quiet の場合、応答テキストと使用量は実行した側で表示済みとして省略する。
+ */
+function reportRun(
+  result: AgentRunResult,
+  options: CliOptions,
+  report: { quiet?: boolean; extra?: Record<string, unknown> } = {}
+): number {
+  saveTranscript(transcriptFromRun(result), options);
+  if (options.json) {
+    writeJson({
+      text: result.text,
+      stopReason: result.stopReason,
+      stopDetail: result.stopDetail,
+      iterations: result.iterations,
+      toolCalls: result.toolCalls,
+      usage: result.usage,
+      sessionId: options.sessionId,
+      ...report.extra,
+    });
+  } else if (!report.quiet) {
+    console.log('');
+    if (!isSuccessful(result.stopReason)) {
+      console.error(`⚠️  停止理由: ${result.stopReason}${result.stopDetail ? `（${result.stopDetail}）` : ''}`);
+    }
+    console.error(`💰 使用量: ${formatUsage(result.usage)}`);
+  }
+  return exitCodeFor(result.stopReason);
+}
+
+/**
+ * 停止理由から終了コードを決める
+ */
+function exitCodeFor(stopReason: AgentStopReason | null): number {
+  if (stopReason === 'aborted') {
+    return EXIT_CODES.interrupted;
+  }
+  return isSuccessful(stopReason) ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+function isSuccessful(stopReason: AgentStopReason | null): boolean {
+  return stopReason === 'end_turn' || stopReason === 'stop_sequence';
+}
+
+/**
+ * 設定からサンドボックス化エージェントのオプションを作る
+ */
+function sandboxedAgentOptions({ config, tools }: CliOptions): SandboxedAgentOptions {
+  return {
+    model: config.model,
+    models: createModelRegistry(config),
+    hooks: createConfigHooks(config),
+    maxTokens: config.limits.maxOutputTokens,
+    thinking: createThinkingOptions(config),
+    systemPrompt: config.systemPrompt,
+    maxIterations: config.limits.maxIterations,
+    timeoutMs: config.limits.timeoutMs,
+    toolTimeoutMs: config.limits.toolTimeoutMs,
+    budget: config.limits.budget,
+    allowedExtensions: config.sandbox.allowedExtensions,
+    toolNames: tools,
+  };
+}
+
+/**
+ * ストリーミングの表示（応答は標準出力、思考は設定の thinking.show の場合だけ標準エラー出力へ）
+ */
+function streamHandler({ config, json }: CliOptions): AgentStreamHandler {
+  let thinking = false;
+  return event => {
+    if (json) {
+      return;
+    }
+    if (event.type === 'thinking_delta' && config.thinking.show) {
+      if (!thinking) {
+        process.stderr.write('💭 ');
+        thinking = true;
+      }
+      process.stderr.write(event.thinking);
+    }
+    if (event.type === 'text_delta') {
+      if (thinking) {
+        process.stderr.write('\n\n');
+        thinking = false;
+      }
+      process.stdout.write(event.text);
+    }
+  };
+}
+
+/**
+ * run コマンドのTodoの保存先（セッション指定時はセッションごと、それ以外は作業ディレクトリの .todos.json）
+ */
+function createTodoManager(agent: SandboxedClaudeAgent, sessionId: string | undefined): TodoManager {
+  return new TodoManager(
+    sessionId
+      ? agent.getSessionStore().getTodoFilePath(sessionId)
+      : path.join(agent.getWorkDir(), '.todos.json')
+  );
+}
+
+/**
+ * --transcript が指定されていれば実行記録を書き出す
+ */
+function saveTranscript(transcript: Transcript, options: Omit<CliOptions, 'config'>): void {
+  if (!options.transcript) {
+    return;
+  }
+  writeTranscript(transcript, options.transcript);
+  console.error(`📝 実行記録を保存しました: ${options.transcript}`);
+}
+
+function writeJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function globalHelp(): string {
+  const names = Object.keys(COMMANDS);
+  const width = Math.max(...names.map(name => name.length));
+  return `使い方: ${PROGRAM} <command> [prompt] [options]
+
+コマンド:
+${names.map(name => `  ${name.padEnd(width)}  ${COMMANDS[name].summary}`).join('\n')}
+
+各コマンドのオプションは ${PROGRAM} <command> --help で表示します。
+プロンプトを省略すると、パイプで渡された標準入力を使います。
+
+設定の優先度（右ほど優先）:
+  デフォルト < ~/${CONFIG_FILE_NAME} < プロジェクトの ${CONFIG_FILE_NAME} < 環境変数（CLAUDE_MODEL, CLAUDE_WORK_DIR など） < フラグ
+
+終了コード:
+  ${EXIT_CODES.success}    正常終了
+  ${EXIT_CODES.failure}    エラー、または実行が完了しなかった（上限超過・打ち切りなど）
+  ${EXIT_CODES.usage}    コマンド・オプションの指定の誤り
+  ${EXIT_CODES.interrupted}  中断（Ctrl+C）`;
+}
+
+function commandHelp(commandName: string): string {
+  const command = COMMANDS[commandName];
+  const rejected = Object.entries(command.rejectedFlags ?? {});
+  return `使い方: ${PROGRAM} ${commandName}${command.takesPrompt ? ' <prompt>' : ''} [options]
+
+${command.summary}
+
+オプション:
+${command.flags.map(flag => `  ${FLAG_HELP[flag]}`).join('\n')}
+  -h, --help                このヘルプ${rejected.length > 0 ? `
+
+指定できないオプション:
+${rejected.map(([flag, reason]) => `  --${flag.padEnd(24)}${reason}`).join('\n')}` : ''}`;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2))
+    .then(code => {
+      process.exitCode = code;
+    })
+    .catch(error => {
+      console.error('❌ エラーが発生しました:', error);
+      process.exitCode = EXIT_CODES.failure;
+    });
+}
@@ -0,0 +1,357 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { stripThinkingBlocks } from './agent-query-types';
+import { RetryOptions, createMessageWithRetry, withRetry } from './resilient-client';
+
+/**
+ * コンテキスト削減の手法
+ *
+ * - truncate: 古いターンの大きなツール入力・結果を切り詰める
+ * - drop_tool_results: 古いターンのツール入力・結果を省略表記に置き換える
+ * - summarize: 古いターンをまとめて要約に置き換える
+ */
+export type CompactionStrategy = 'truncate' | 'drop_tool_results' | 'summarize';
+
+/**
+ * ContextManagerの設定
+ */
+export interface ContextManagerOptions {
+  /** モデルのコンテキストウィンドウ（トークン、デフォルト: 200000） */
+  maxContextTokens?: number;
+
+  /** この割合を超えたら削減を開始する（デフォルト: 0.75） */
+  threshold?: number;
+
+  /** 削減対象から除外する直近のアシスタント応答数（デフォルト: 3） */
+  preserveRecentTurns?: number;
+
+  /** truncate で残す最大文字数（デフォルト: 2000） */
+  maxToolContentChars?: number;
+
+  /** 適用する手法（この順に、閾値を下回るまで適用。デフォルト: 全手法） */
+  strategies?: CompactionStrategy[];
+
+  /**
+   * トークン数の数え方（デフォルト: 'estimate'）
+   *
+   * - estimate: 文字数からの概算（API呼び出しなし）
+   * - api: messages.countTokens で正確に数える
+   */
+  tokenCounter?: 'estimate' | 'api';
+
+  /** 要約に使用するモデル（省略時はリクエストと同じモデル） */
+  summaryModel?: string;
+
+  /** トークン計測・要約のAPI呼び出しのリトライ設定（デフォルト: createMessageWithRetry と同じ） */
+  retry?: RetryOptions;
+}
+
+/**
+ * 削減結果
+ */
+export interface CompactionResult {
+  messages: Anthropic.MessageParam[];
+  compacted: boolean;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** 実際に適用した手法 */
+  applied: CompactionStrategy[];
+  /** 削減のためのAPI呼び出し（要約）の使用量（呼び出し側で UsageTracker に記録する） */
+  usage: Array<{ model: string; usage: Anthropic.Usage }>;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ContextManagerOptions, 'summaryModel' | 'retry'>> = {
+  maxContextTokens: 200_000,
+  threshold: 0.75,
+  preserveRecentTurns: 3,
+  maxToolContentChars: 2000,
+  strategies: ['truncate', 'drop_tool_results', 'summarize'],
+  tokenCounter: 'estimate',
+};
+
+const OMITTED_TOOL_RESULT = '[古いツール結果はコンテキスト削減のため省略されました]';
+const OMITTED_TOOL_INPUT = { note: '古いツール入力はコンテキスト削減のため省略されました' };
+
+/**
+ * ContextManager
+ *
+ * リクエスト前に会話のトークン数を見積もり、閾値に近づいたら古いターンを削減する。
+ * 直近のターンはそのまま残し、tool_use と対応する tool_result は常に一緒に残すか一緒に取り除きます。
+ *
+ * @example
+ * ```typescript
+ * const contextManager = new ContextManager(client, { maxContextTokens: 200_000, threshold: 0.7 });
+ * const runner = new AgentRunner({ client, tools, contextManager });
+ * ```
+ */
+export class ContextManager {
+  private client: Anthropic;
+  private options: Required<Omit<ContextManagerOptions, 'summaryModel' | 'retry'>> &
+    Pick<ContextManagerOptions, 'summaryModel' | 'retry'>;
+
+  constructor(client: Anthropic, options: ContextManagerOptions = {}) {
+    this.client = client;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 削減を開始するトークン数
+   */
+  getThresholdTokens(): number {
+    return Math.floor(this.options.maxContextTokens * this.options.threshold);
+  }
+
+  /**
+   * リクエストがコンテキストに収まるよう、必要に応じてメッセージを削減する
+   *
+   * @param signal - 中断用シグナル（トークン計測・要約のAPI呼び出しに渡される）
+   */
+  async fit(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    signal?: AbortSignal
+  ): Promise<CompactionResult> {
+    const limit = this.getThresholdTokens();
+    const tokensBefore = await this.countTokens(params, signal);
+
+    let messages = params.messages;
+    let tokens = tokensBefore;
+    const applied: CompactionStrategy[] = [];
+    const usage: CompactionResult['usage'] = [];
+
+    for (const strategy of this.options.strategies) {
+      if (tokens <= limit) break;
+
+      const next = await this.applyStrategy(strategy, messages, params, usage, signal);
+      if (next === messages) continue;
+
+      messages = next;
+      applied.push(strategy);
+      tokens = await this.countTokens({ ...params, messages }, signal);
+    }
+
+    return {
+      messages,
+      compacted: applied.length > 0,
+      tokensBefore,
+      tokensAfter: tokens,
+      applied,
+      usage,
+    };
+  }
+
+  /**
+   * リクエスト全体のトークン数を数える
+   */
+  async countTokens(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    signal?: AbortSignal
+  ): Promise<number> {
+    if (this.options.tokenCounter === 'api') {
+      const { input_tokens } = await withRetry(
+        () =>
+          this.client.messages.countTokens(
+            {
+              model: params.model,
+              messages: params.messages,
+              system: params.system,
+              tools: params.tools,
+            },
+            { signal }
+          ),
+        { ...this.options.retry, signal }
+      );
+      return input_tokens;
+    }
+
+    return estimateTokens(
+      JSON.stringify({ system: params.system, tools: params.tools, messages: params.messages })
+    );
+  }
+
+  private async applyStrategy(
+    strategy: CompactionStrategy,
+    messages: Anthropic.MessageParam[],
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    usage: CompactionResult['usage'],
+    signal?: AbortSignal
+  ): Promise<Anthropic.MessageParam[]> {
+    const boundary = findPreservedBoundary(messages, this.options.preserveRecentTurns);
+    if (boundary <= 0) {
+      return messages;
+    }
+
+    switch (strategy) {
+      case 'truncate':
+        return mapOldToolBlocks(messages, boundary, {
+          input: (input) => truncateStrings(input, this.options.maxToolContentChars),
+          result: (content) => truncateText(content, this.options.maxToolContentChars),
+        });
+      case 'drop_tool_results':
+        return mapOldToolBlocks(messages, boundary, {
+          input: () => OMITTED_TOOL_INPUT,
+          result: () => OMITTED_TOOL_RESULT,
+        });
+      case 'summarize':
+        return await this.summarize(messages, boundary, params, usage, signal);
+    }
+  }
+
+  /**
+   * boundaryより前のメッセージを要約し、boundaryのuserメッセージの先頭に差し込む
+   *
+   * boundaryのメッセージに含まれるtool_resultは、対応するtool_useが要約側に入るため取り除く。
+   * 要約の呼び出しの使用量は usage に追加する。
+   */
+  private async summarize(
+    messages: Anthropic.MessageParam[],
+    boundary: number,
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    usage: CompactionResult['usage'],
+    signal?: AbortSignal
+  ): Promise<Anthropic.MessageParam[]> {
+    // 思考ブロック（署名を含む）は要約に不要なため渡さない
+    const older = stripThinkingBlocks(messages.slice(0, boundary));
+    const response = await createMessageWithRetry(
+      this.client,
+      {
+        model: this.options.summaryModel ?? params.model,
+        max_tokens: 2048,
+        system:
+          'あなたは会話の要約担当です。後続の作業に必要な事実・決定事項・ファイル名・未完了のタスクを漏らさず、簡潔に要約してください。',
+        messages: [
+          {
+            role: 'user',
+            content: `以下の会話履歴（JSON）を要約してください。\n\n${JSON.stringify(older)}`,
+          },
+        ],
+      },
+      { ...this.options.retry, signal }
+    );
+    usage.push({ model: response.model, usage: response.usage });
+
+    const summary = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+
+    const first = messages[boundary];
+    const remaining = typeof first.content === 'string'
+      ? [{ type: 'text' as const, text: first.content }]
+      : first.content.filter(block => block.type !== 'tool_result');
+
+    return [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: `<conversation_summary>\n${summary}\n</conversation_summary>` },
+          ...remaining,
+        ],
+      },
+      ...messages.slice(boundary + 1),
+    ];
+  }
+}
+
+/**
+ * 文字列のトークン数を概算
+ *
+ * ASCII文字はおよそ4文字で1トークン、それ以外（日本語など）は1文字1トークンとして数える。
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * 削減しない直近ターンの開始位置を求める
+ *
+ * 末尾から数えてpreserveTurns個目のアシスタント応答の直前にあるuserメッセージの位置を返す。
+ * 返す位置は常にuserメッセージなので、その前で区切ってもtool_useとtool_resultの組は崩れない。
+ */
+function findPreservedBoundary(messages: Anthropic.MessageParam[], preserveTurns: number): number {
+  let assistantCount = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'assistant') {
+      assistantCount++;
+      if (assistantCount === preserveTurns) {
+        return i > 0 && messages[i - 1].role === 'user' ? i - 1 : 0;
+      }
+    }
+  }
+  return 0;
+}
+
+/**
+ * boundaryより前のtool_use入力・tool_result内容を変換
+ *
+ * ブロックの構造は変えないため、tool_useとtool_resultの対応は保たれる。
+ * 変更がなければ元の配列をそのまま返す。
+ */
+function mapOldToolBlocks(
+  messages: Anthropic.MessageParam[],
+  boundary: number,
+  transform: {
+    input: (input: unknown) => unknown;
+    result: (content: string) => string;
+  }
+): Anthropic.MessageParam[] {
+  let changed = false;
+
+  const mapped = messages.map((message, index) => {
+    if (index >= boundary || typeof message.content === 'string') {
+      return message;
+    }
+
+    const content = message.content.map(block => {
+      if (block.type === 'tool_use') {
+        const input = transform.input(block.input);
+        if (JSON.stringify(input) === JSON.stringify(block.input)) return block;
+        changed = true;
+        return { ...block, input };
+      }
+      if (block.type === 'tool_result') {
+        const original = toolResultText(block);
+        const result = transform.result(original);
+        if (result === original) return block;
+        changed = true;
+        return { ...block, content: result };
+      }
+      return block;
+    });
+
+    return { ...message, content };
+  });
+
+  return changed ? mapped : messages;
+}
+
+function toolResultText(block: Anthropic.ToolResultBlockParam): string {
+  if (block.content === undefined) return '';
+  if (typeof block.content === 'string') return block.content;
+  return block.content
+    .map(part => (part.type === 'text' ? part.text : `[${part.type}]`))
+    .join('\n');
+}
+
+function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n...(${text.length - maxChars}文字省略)`;
+}
+
+/**
+ * オブジェクト内の長い文字列をすべて切り詰める（ファイル内容を含むツール入力など）
+ */
+function truncateStrings(value: unknown, maxChars: number): unknown {
+  if (typeof value === 'string') return truncateText(value, maxChars);
+  if (Array.isArray(value)) return value.map(item => truncateStrings(item, maxChars));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, truncateStrings(item, maxChars)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,106 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ToolContext, ToolHandler, ToolOptions } from './agent-runner';
+import { AgentError } from './agent-errors';
+import { InferSchema, JsonSchema, SchemaIssue, formatSchemaIssues, validateSchema } from './json-schema';
+
+/**
+ * defineTool に渡すツールの仕様
+ */
+export interface ToolSpec<S extends JsonSchema> extends ToolOptions {
+  /** ツール名 */
+  name: string;
+
+  /** モデルに示すツールの説明 */
+  description: string;
+
+  /** 入力のスキーマ（type: 'object' のみ） */
+  schema: S;
+
+  /** スキーマで検証済みの入力を受け取るハンドラー */
+  handler: (input: InferSchema<S>, context: ToolContext) => unknown | Promise<unknown>;
+}
+
+/**
+ * 定義済みツール（ToolRegistry.add で登録できる）
+ */
+export interface DefinedTool {
+  /** APIに渡すツール定義 */
+  definition: Anthropic.Tool;
+
+  /** 入力を検証してから元のハンドラーを呼ぶハンドラー */
+  handler: ToolHandler;
+
+  /** 登録時のオプション */
+  options: ToolOptions;
+}
+
+/**
+ * ツールの入力がスキーマに一致しない時のエラー
+ *
+ * メッセージにはフィールドごとの検証エラーが含まれ、そのままモデルに返されます。
+ */
+export class ToolInputError extends AgentError {
+  readonly toolName: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(toolName: string, issues: SchemaIssue[]) {
+    super('INVALID_TOOL_INPUT', `${toolName} の入力がスキーマに一致しません:\n${formatSchemaIssues(issues)}`);
+    this.name = 'ToolInputError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * スキーマから入力の型を推論するツールを定義
+ *
+ * ハンドラーの前に入力をスキーマで検証し、一致しない場合は ToolInputError を投げる
+ * （AgentRunner は is_error の tool_result としてモデルに返すため、モデルは入力を直して再試行できる）。
+ *
+ * @example
+ * ```typescript
+ * const readFile = defineTool({
+ *   name: 'read_file',
+ *   description: 'ファイルを読み込みます',
+ *   schema: {
+ *     type: 'object',
+ *     properties: { path: { type: 'string' }, encoding: { type: 'string', enum: ['utf8', 'base64'] } },
+ *     required: ['path'],
+ *   },
+ *   handler: input => fs.readFileSync(input.path, input.encoding ?? 'utf8'), // input: { path: string; encoding?: 'utf8' | 'base64' }
+ *   readOnly: true,
+ * });
+ *
+ * const tools = new ToolRegistry().add(readFile);
+ * ```
+ */
+export function defineTool<const S extends JsonSchema>(spec: ToolSpec<S>): DefinedTool {
+  const { name, description, schema, handler, ...options } = spec;
+
+  if (schema.type !== 'object') {
+    throw new Error(`ツール ${name} のスキーマは type: "object" である必要があります`);
+  }
+
+  return {
+    definition: {
+      name,
+      description,
+      input_schema: toInputSchema(schema),
+    },
+    handler: (input, context) => {
+      const issues = validateSchema(input, schema);
+      if (issues.length > 0) {
+        throw new ToolInputError(name, issues);
+      }
+      return handler(input as InferSchema<S>, context);
+    },
+    options,
+  };
+}
+
+/**
+ * スキーマをAPIのツール定義の input_schema に変換
+ */
+export function toInputSchema(schema: JsonSchema): Anthropic.Tool.InputSchema {
+  return schema as unknown as Anthropic.Tool.InputSchema;
+}
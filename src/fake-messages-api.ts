@@ -0,0 +1,470 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { estimateTokens } from './context-manager';
+import { createResilientClient } from './resilient-client';
+
+/**
+ * フェイクの応答に含めるブロック
+ */
+export type FakeContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'thinking';
+      thinking: string;
+      /** 省略時は自動で採番（fake_signature_1, fake_signature_2, ...） */
+      signature?: string;
+    }
+  | { type: 'redacted_thinking'; data: string }
+  | {
+      type: 'tool_use';
+      name: string;
+      input: unknown;
+      /** 省略時は自動で採番（toolu_fake_1, toolu_fake_2, ...） */
+      id?: string;
+      /** ストリーミング時に送る途中までのJSON（max_tokens で途切れた入力の再現用） */
+      partialJson?: string;
+    };
+
+/**
+ * モデルの1ターン分の応答
+ */
+export interface FakeTurn {
+  content: FakeContentBlock[];
+  stopReason: Anthropic.StopReason;
+  /** 省略時はリクエスト・応答の長さから概算 */
+  usage?: Partial<Anthropic.Usage>;
+}
+
+/**
+ * APIエラーを返すターン
+ */
+export interface FakeErrorTurn {
+  error: {
+    status: number;
+    type: string;
+    message: string;
+  };
+  /** 応答に付けるヘッダー（retry-after / retry-after-ms など） */
+  headers?: Record<string, string>;
+}
+
+/**
+ * スクリプトの1ステップ
+ *
+ * 関数を指定するとリクエストの内容に応じて応答を決められます（並列実行で到着順が決まらない場合など）。
+ */
+export type FakeScriptStep = FakeTurn | FakeErrorTurn | ((request: FakeRequest) => FakeTurn | FakeErrorTurn);
+
+/**
+ * フェイクAPIが受け取ったリクエスト
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  /** リクエストボディ（messages.create / count_tokens のパラメータ） */
+  body: Anthropic.MessageCreateParams;
+  /** リクエストヘッダー（名前は小文字） */
+  headers: Record<string, string>;
+  stream: boolean;
+}
+
+/**
+ * ターンを作成するヘルパー
+ *
+ * @example
+ * ```typescript
+ * const api = new FakeMessagesApi([
+ *   fakeTurn.toolUse('write_file', { path: 'hello.txt', content: 'Hello' }),
+ *   fakeTurn.toolUse('read_file', { path: 'hello.txt' }),
+ *   fakeTurn.text('hello.txt を作成しました'),
+ * ]);
+ * ```
+ */
+export const fakeTurn = {
+  /** テキストで応答して終了（end_turn） */
+  text(text: string): FakeTurn {
+    return { content: [{ type: 'text', text }], stopReason: 'end_turn' };
+  },
+
+  /** ツールを1つ呼び出す（text を指定すると呼び出し前の発言を付ける） */
+  toolUse(name: string, input: unknown, text?: string): FakeTurn {
+    return fakeTurn.toolUses([{ name, input }], text);
+  },
+
+  /** 1ターンで複数のツールを呼び出す */
+  toolUses(calls: Array<{ name: string; input: unknown; id?: string }>, text?: string): FakeTurn {
+    return {
+      content: [
+        ...(text ? [{ type: 'text' as const, text }] : []),
+        ...calls.map(call => ({ type: 'tool_use' as const, ...call })),
+      ],
+      stopReason: 'tool_use',
+    };
+  },
+
+  /** テキストの途中で max_tokens に達する */
+  maxTokens(text: string): FakeTurn {
+    return { content: [{ type: 'text', text }], stopReason: 'max_tokens' };
+  },
+
+  /** ツールの入力の途中で max_tokens に達する */
+  truncatedToolUse(name: string, partialJson: string): FakeTurn {
+    return {
+      content: [{ type: 'tool_use', name, input: {}, partialJson }],
+      stopReason: 'max_tokens',
+    };
+  },
+
+  /** 応答を拒否する（refusal） */
+  refusal(text = ''): FakeTurn {
+    return { content: text ? [{ type: 'text', text }] : [], stopReason: 'refusal' };
+  },
+
+  /** 応答の前に思考のブロックを付ける */
+  withThinking(thinking: string, turn: FakeTurn): FakeTurn {
+    return { ...turn, content: [{ type: 'thinking', thinking }, ...turn.content] };
+  },
+
+  /** APIエラーを返す（headers で retry-after などを付けられる） */
+  error(status: number, type: string, message: string, headers?: Record<string, string>): FakeErrorTurn {
+    return { error: { status, type, message }, headers };
+  },
+
+  /** 過負荷エラー（529）を返す */
+  overloaded(): FakeErrorTurn {
+    return fakeTurn.error(529, 'overloaded_error', 'Overloaded');
+  },
+
+  /** レート制限エラー（429）を返す（retryAfterSeconds を指定すると retry-after ヘッダーを付ける） */
+  rateLimited(retryAfterSeconds?: number): FakeErrorTurn {
+    return fakeTurn.error(
+      429,
+      'rate_limit_error',
+      'Rate limited',
+      retryAfterSeconds !== undefined ? { 'retry-after': String(retryAfterSeconds) } : undefined
+    );
+  },
+};
+
+/**
+ * フェイクの応答（HTTPレスポンスの内容）
+ */
+interface FakeResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * FakeMessagesApi
+ *
+ * スクリプトに書いた順にモデルの応答を返す /v1/messages のフェイク。
+ * 受け取ったリクエストを記録するため、エージェントが送った tool_result などを検証できます。
+ * クライアントの fetch を置き換えるプロセス内の利用（createClient）と、
+ * ローカルのHTTPサーバーとしての利用（listen で得た baseURL を指定）のどちらにも対応します。
+ * stream: true のリクエストにはSSEで応答し、count_tokens には長さからの概算を返します。
+ *
+ * スクリプトが尽きた後のリクエストは 400（リトライ対象外）で失敗します。
+ *
+ * @example
+ * ```typescript
+ * const api = new FakeMessagesApi([
+ *   fakeTurn.toolUses([
+ *     { name: 'write_file', input: { path: 'a.txt', content: 'A' } },
+ *     { name: 'write_file', input: { path: 'b.exe', content: 'B' } },
+ *   ]),
+ *   fakeTurn.text('完了しました'),
+ * ]);
+ *
+ * const agent = new SandboxedClaudeAgent('', workDir, { client: api.createClient() });
+ * await agent.run('2つのファイルを作成してください');
+ *
+ * const [a, b] = getToolResults(api.getMessageRequests()[1]);
+ * assert.equal(b.is_error, true);
+ * api.assertDone();
+ * ```
+ */
+export class FakeMessagesApi {
+  private script: FakeScriptStep[];
+  private requests: FakeRequest[] = [];
+  private nextToolUseId = 1;
+  private nextMessageId = 1;
+  private nextSignature = 1;
+  private server?: http.Server;
+
+  constructor(script: FakeScriptStep[] = []) {
+    this.script = [...script];
+  }
+
+  /**
+   * スクリプトの末尾にステップを追加
+   */
+  enqueue(...steps: FakeScriptStep[]): this {
+    this.script.push(...steps);
+    return this;
+  }
+
+  /**
+   * プロセス内でフェイクAPIを呼び出すクライアントを作成
+   */
+  createClient(options: ConstructorParameters<typeof Anthropic>[0] = {}): Anthropic {
+    return createResilientClient({ apiKey: 'fake-api-key', ...options, fetch: this.fetch });
+  }
+
+  /**
+   * Anthropicクライアントに渡す fetch
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const body = typeof init?.body === 'string' ? init.body : input instanceof Request ? await input.text() : '';
+    const headers = Object.fromEntries(new Headers(init?.headers).entries());
+    const response = this.handle(init?.method ?? 'GET', url.pathname, body, headers);
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  };
+
+  /**
+   * ローカルのHTTPサーバーとして起動し、baseURL を返す
+   */
+  async listen(port = 0): Promise<string> {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const headers = Object.fromEntries(
+          Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : value ?? ''])
+        );
+        const response = this.handle(
+          req.method ?? 'GET',
+          new URL(req.url ?? '/', 'http://localhost').pathname,
+          body,
+          headers
+        );
+        res.writeHead(response.status, response.headers);
+        res.end(response.body);
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * HTTPサーバーを停止
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  /**
+   * 受け取ったリクエストの一覧を取得（count_tokens を含む）
+   */
+  getRequests(): FakeRequest[] {
+    return [...this.requests];
+  }
+
+  /**
+   * 受け取った messages.create のリクエストの一覧を取得
+   */
+  getMessageRequests(): FakeRequest[] {
+    return this.requests.filter(request => request.path === '/v1/messages');
+  }
+
+  /**
+   * 最後に受け取った messages.create のリクエストを取得
+   */
+  lastRequest(): FakeRequest | undefined {
+    const requests = this.getMessageRequests();
+    return requests[requests.length - 1];
+  }
+
+  /**
+   * 未使用のステップの数
+   */
+  remaining(): number {
+    return this.script.length;
+  }
+
+  /**
+   * スクリプトをすべて使い切ったことを確認（残っていれば例外）
+   */
+  assertDone(): void {
+    if (this.script.length > 0) {
+      throw new Error(
+        `フェイクAPIのスクリプトが${this.script.length}ステップ残っています` +
+          `（受け取ったリクエスト: ${this.getMessageRequests().length}件）`
+      );
+    }
+  }
+
+  /**
+   * リクエストを処理して応答を作成
+   */
+  private handle(method: string, path: string, rawBody: string, headers: Record<string, string>): FakeResponse {
+    const body = (rawBody ? JSON.parse(rawBody) : {}) as Anthropic.MessageCreateParams;
+    const request: FakeRequest = { method, path, body, headers, stream: body.stream === true };
+    this.requests.push(request);
+
+    if (path === '/v1/messages/count_tokens') {
+      return jsonResponse(200, { input_tokens: estimateTokens(rawBody) });
+    }
+    if (path !== '/v1/messages') {
+      return errorResponse(404, 'not_found_error', `フェイクAPIは ${path} に対応していません`, false);
+    }
+
+    const step = this.script.shift();
+    if (!step) {
+      return errorResponse(
+        400,
+        'invalid_request_error',
+        `フェイクAPIのスクリプトが終了しています（${this.getMessageRequests().length}件目のリクエスト）`,
+        false
+      );
+    }
+
+    const turn = typeof step === 'function' ? step(request) : step;
+    if ('error' in turn) {
+      const response = errorResponse(turn.error.status, turn.error.type, turn.error.message);
+      return { ...response, headers: { ...response.headers, ...turn.headers } };
+    }
+
+    const message = this.toMessage(turn, body.model, estimateTokens(rawBody));
+    return request.stream
+      ? { status: 200, headers: { 'content-type': 'text/event-stream' }, body: toSse(message, turn) }
+      : jsonResponse(200, message);
+  }
+
+  /**
+   * ターンからAPIの応答メッセージを作成
+   */
+  private toMessage(turn: FakeTurn, model: string, inputTokens: number): Anthropic.Message {
+    const content = turn.content.map((block): Anthropic.ContentBlock => {
+      switch (block.type) {
+        case 'text':
+          return { type: 'text', text: block.text, citations: null };
+        case 'thinking':
+          return {
+            type: 'thinking',
+            thinking: block.thinking,
+            signature: block.signature ?? `fake_signature_${this.nextSignature++}`,
+          };
+        case 'redacted_thinking':
+          return { type: 'redacted_thinking', data: block.data };
+        case 'tool_use':
+          return {
+            type: 'tool_use',
+            id: block.id ?? `toolu_fake_${this.nextToolUseId++}`,
+            name: block.name,
+            input: block.input,
+          };
+      }
+    });
+
+    return {
+      id: `msg_fake_${this.nextMessageId++}`,
+      type: 'message',
+      role: 'assistant',
+      model,
+      content,
+      stop_reason: turn.stopReason,
+      stop_sequence: null,
+      usage: {
+        input_tokens: inputTokens,
+        output_tokens: estimateTokens(JSON.stringify(content)),
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+        cache_creation: null,
+        server_tool_use: null,
+        service_tier: null,
+        ...turn.usage,
+      },
+    };
+  }
+}
+
+/**
+ * 最後のメッセージに含まれる tool_result ブロックを取得（エージェントがツールの結果をどう返したかの検証用）
+ */
+export function getToolResults(request: FakeRequest | undefined): Anthropic.ToolResultBlockParam[] {
+  const messages = request?.body.messages ?? [];
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'user' || typeof last.content === 'string') {
+    return [];
+  }
+  return last.content.filter(
+    (block): block is Anthropic.ToolResultBlockParam => block.type === 'tool_result'
+  );
+}
+
+/**
+ * 応答メッセージをSSEのイベント列に変換
+ */
+function toSse(message: Anthropic.Message, turn: FakeTurn): string {
+  const events: Array<[string, unknown]> = [
+    ['message_start', { type: 'message_start', message: { ...message, content: [], stop_reason: null } }],
+  ];
+
+  message.content.forEach((block, index) => {
+    if (block.type === 'text') {
+      events.push(
+        ['content_block_start', { type: 'content_block_start', index, content_block: { type: 'text', text: '' } }],
+        ['content_block_delta', { type: 'content_block_delta', index, delta: { type: 'text_delta', text: block.text } }]
+      );
+    } else if (block.type === 'thinking') {
+      events.push(
+        ['content_block_start', { type: 'content_block_start', index, content_block: { type: 'thinking', thinking: '', signature: '' } }],
+        ['content_block_delta', { type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: block.thinking } }],
+        ['content_block_delta', { type: 'content_block_delta', index, delta: { type: 'signature_delta', signature: block.signature } }]
+      );
+    } else if (block.type === 'redacted_thinking') {
+      events.push(['content_block_start', { type: 'content_block_start', index, content_block: block }]);
+    } else if (block.type === 'tool_use') {
+      const source = turn.content[index];
+      const partialJson =
+        source.type === 'tool_use' && source.partialJson !== undefined
+          ? source.partialJson
+          : JSON.stringify(block.input);
+      events.push(
+        ['content_block_start', { type: 'content_block_start', index, content_block: { ...block, input: {} } }],
+        ['content_block_delta', { type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: partialJson } }]
+      );
+    }
+    events.push(['content_block_stop', { type: 'content_block_stop', index }]);
+  });
+
+  events.push(
+    [
+      'message_delta',
+      {
+        type: 'message_delta',
+        delta: { stop_reason: message.stop_reason, stop_sequence: null },
+        usage: { output_tokens: message.usage.output_tokens },
+      },
+    ],
+    ['message_stop', { type: 'message_stop' }]
+  );
+
+  return events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join('');
+}
+
+function jsonResponse(status: number, body: unknown): FakeResponse {
+  return { status, headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+/**
+ * APIと同じ形式のエラー応答
+ *
+ * スクリプトの誤りなどフェイクAPI自身のエラーは retryable: false で x-should-retry: false を付け、リトライさせない。
+ */
+function errorResponse(status: number, type: string, message: string, retryable?: boolean): FakeResponse {
+  const response = jsonResponse(status, { type: 'error', error: { type, message } });
+  if (retryable === false) {
+    response.headers['x-should-retry'] = 'false';
+  }
+  return response;
+}
@@ -0,0 +1,182 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AgentRunResult } from './agent-runner';
+import { AgentErrorCode } from './agent-errors';
+import { Logger, getDefaultLogger } from './logger';
+
+/**
+ * Hookイベントごとのコンテキスト
+ *
+ * ハンドラーはコンテキストの一部を返すことで、後続のハンドラーと
+ * エージェント本体に渡される値を書き換えることができます。
+ */
+export interface HookContextMap {
+  /** モデルへのリクエスト送信前（paramsを書き換え可能） */
+  'pre:request': {
+    iteration: number;
+    params: Anthropic.MessageCreateParamsNonStreaming;
+  };
+
+  /** モデルからの応答受信後 */
+  'post:request': {
+    iteration: number;
+    response: Anthropic.Message;
+  };
+
+  /** ツール実行前（inputの書き換え、block: true で実行を中止） */
+  'pre:tool': {
+    toolName: string;
+    toolUseId: string;
+    input: unknown;
+    block?: boolean;
+    blockReason?: string;
+  };
+
+  /** ツール実行後（resultを書き換え可能） */
+  'post:tool': {
+    toolName: string;
+    toolUseId: string;
+    input: unknown;
+    result: unknown;
+    error?: string;
+    errorCode?: AgentErrorCode;
+  };
+
+  /** リクエストまたはツール実行でエラーが発生した時（ツールのエラーは AgentError） */
+  'error': {
+    phase: 'request' | 'tool';
+    error: Error;
+    code?: AgentErrorCode;
+    toolName?: string;
+  };
+
+  /** エージェントの実行完了時 */
+  'run:end': {
+    result: AgentRunResult;
+  };
+}
+
+export type HookEvent = keyof HookContextMap;
+
+/**
+ * Hookハンドラー
+ *
+ * 何も返さなければコンテキストはそのまま、オブジェクトを返すとその内容で上書きされます。
+ */
+export type HookHandler<E extends HookEvent> = (
+  context: HookContextMap[E]
+) => Partial<HookContextMap[E]> | void | Promise<Partial<HookContextMap[E]> | void>;
+
+interface Hook<E extends HookEvent = HookEvent> {
+  name: string;
+  priority: number;
+  handler: HookHandler<E>;
+}
+
+/**
+ * HookManagerのオプション
+ */
+export interface HookManagerOptions {
+  /** Hookの例外などを記録するロガー（デフォルト: 既定のロガーの子ロガー 'hooks'） */
+  logger?: Logger;
+}
+
+/**
+ * HookManager
+ *
+ * エージェントのライフサイクルにフックを登録・実行する。
+ * 優先度の高いハンドラーから順に実行され、各ハンドラーの戻り値が
+ * 次のハンドラーに渡るコンテキストに反映されます。
+ *
+ * @example
+ * ```typescript
+ * const hooks = new HookManager();
+ *
+ * hooks.register('pre:tool', 'deny-delete', (ctx) => {
+ *   if (ctx.toolName === 'delete_file') {
+ *     return { block: true, blockReason: '削除は許可されていません' };
+ *   }
+ * });
+ *
+ * const agent = new SandboxedClaudeAgent(apiKey, workDir, { hooks });
+ * ```
+ */
+export class HookManager {
+  /** Hookの実行結果を記録するロガー（設定の hooks.logToolCalls などのHookからも使う） */
+  readonly logger: Logger;
+  private hooks: { [E in HookEvent]?: Hook<E>[] } = {};
+
+  constructor(options: HookManagerOptions = {}) {
+    this.logger = options.logger ?? getDefaultLogger().child('hooks');
+  }
+
+  /**
+   * Hookを登録
+   *
+   * 同じイベントに同じ名前のHookが登録済みの場合は置き換えます。
+   */
+  register<E extends HookEvent>(
+    event: E,
+    name: string,
+    handler: HookHandler<E>,
+    options: { priority?: number } = {}
+  ): this {
+    const hooks = this.getHooks(event).filter(hook => hook.name !== name);
+    hooks.push({ name, priority: options.priority ?? 0, handler });
+    hooks.sort((a, b) => b.priority - a.priority);
+    this.setHooks(event, hooks);
+    return this;
+  }
+
+  /**
+   * Hookを削除
+   */
+  unregister<E extends HookEvent>(event: E, name: string): void {
+    this.setHooks(event, this.getHooks(event).filter(hook => hook.name !== name));
+  }
+
+  /**
+   * 指定イベントのHookを順に実行し、最終的なコンテキストを返す
+   *
+   * Hook内で発生した例外はログに記録し、残りのHookの実行を続けます。
+   * pre:tool で block が true になった時点で後続のHookは実行しません。
+   */
+  async runHooks<E extends HookEvent>(
+    event: E,
+    context: HookContextMap[E]
+  ): Promise<HookContextMap[E]> {
+    let current = context;
+
+    for (const hook of this.getHooks(event)) {
+      try {
+        const update = await hook.handler(current);
+        if (update) {
+          current = { ...current, ...update };
+        }
+      } catch (error) {
+        this.logger.error('❌ Hookでエラーが発生しました', { event, hook: hook.name, error });
+      }
+
+      if (event === 'pre:tool' && (current as HookContextMap['pre:tool']).block) {
+        break;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * 指定イベントに登録されているHook名の一覧を取得
+   */
+  list(event: HookEvent): string[] {
+    return this.getHooks(event).map(hook => hook.name);
+  }
+
+  private getHooks<E extends HookEvent>(event: E): Hook<E>[] {
+    return this.hooks[event] ?? [];
+  }
+
+  private setHooks<E extends HookEvent>(event: E, hooks: Hook<E>[]): void {
+    // ジェネリックなキーへの代入はTypeScriptが対応を絞り込めないため、イベントとHookの型の対応はここで保証する
+    (this.hooks as Record<E, Hook<E>[]>)[event] = hooks;
+  }
+}
@@ -1,13 +1,18 @@
 import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
+import { SessionStore, prepareHistoryForResume } from './session-store';
+import { resolveModel } from './model-registry';
+import { cassetteFromEnv, hasApiAccess, withCassette } from './cassette';
 
 // 環境変数の読み込み
 dotenv.config();
 
 // Claude APIクライアントの初期化
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+const client = new Anthropic(
+  withCassette(cassetteFromEnv(), {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  })
+);
 
 /**
  * シンプルなClaude APIの使用例
@@ -16,7 +21,7 @@ async function simpleExample() {
   console.log('=== Simple Claude API Example ===\n');
 
   const message = await client.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
+    model: resolveModel('default'),
     max_tokens: 1024,
     messages: [
       {
@@ -32,45 +37,48 @@ async function simpleExample() {
 
 /**
  * 会話の履歴を保持する例
+ *
+ * sessionIdを指定すると、履歴を .sessions/<sessionId>.json に保存し、
+ * 次回は保存された会話の続きから始めます。
  */
-async function conversationExample() {
+async function conversationExample(sessionId?: string) {
   console.log('=== Conversation Example ===\n');
 
-  const conversationHistory: Anthropic.MessageParam[] = [];
+  const store = SessionStore.forWorkDir(process.cwd());
+  const session = sessionId ? store.open(sessionId) : null;
+  const conversationHistory: Anthropic.MessageParam[] = session
+    ? prepareHistoryForResume(session.messages)
+    : [];
 
-  // 最初のメッセージ
-  conversationHistory.push({
-    role: 'user',
-    content: '私の名前は太郎です。覚えておいてください。',
-  });
+  if (session && conversationHistory.length > 0) {
+    console.log(`セッション ${session.id} を再開します（${conversationHistory.length}件のメッセージ）\n`);
+  }
 
-  let response = await client.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
-    max_tokens: 1024,
-    messages: conversationHistory,
-  });
+  // 1ターン分のやり取りを行い、セッションに記録する
+  const sendTurn = async (content: string): Promise<string> => {
+    conversationHistory.push({ role: 'user', content });
 
-  const firstResponse = response.content[0].type === 'text' ? response.content[0].text : '';
-  console.log('Assistant:', firstResponse);
+    const response = await client.messages.create({
+      model: resolveModel('default'),
+      max_tokens: 1024,
+      messages: conversationHistory,
+    });
 
-  conversationHistory.push({
-    role: 'assistant',
-    content: firstResponse,
-  });
+    const text = response.content[0].type === 'text' ? response.content[0].text : '';
+    conversationHistory.push({ role: 'assistant', content: text });
 
-  // 2番目のメッセージ（名前を覚えているか確認）
-  conversationHistory.push({
-    role: 'user',
-    content: '私の名前は何ですか？',
-  });
+    if (session) {
+      store.save({ ...session, messages: conversationHistory });
+    }
+    return text;
+  };
 
-  response = await client.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
-    max_tokens: 1024,
-    messages: conversationHistory,
-  });
+  // 最初のメッセージ
+  const firstResponse = await sendTurn('私の名前は太郎です。覚えておいてください。');
+  console.log('Assistant:', firstResponse);
 
-  const secondResponse = response.content[0].type === 'text' ? response.content[0].text : '';
+  // 2番目のメッセージ（名前を覚えているか確認）
+  const secondResponse = await sendTurn('私の名前は何ですか？');
   console.log('Assistant:', secondResponse);
   console.log('\n');
 }
@@ -82,7 +90,7 @@ async function systemPromptExample() {
   console.log('=== System Prompt Example ===\n');
 
   const message = await client.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
+    model: resolveModel('default'),
     max_tokens: 1024,
     system: 'あなたは親切な日本語教師です。常に丁寧語で話してください。',
     messages: [
@@ -102,9 +110,10 @@ async function systemPromptExample() {
  */
 async function main() {
   try {
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!hasApiAccess()) {
       console.error('エラー: ANTHROPIC_API_KEYが設定されていません');
       console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+      console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
       return;
     }
 
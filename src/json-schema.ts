@@ -0,0 +1,188 @@
+/**
+ * JSON Schema（ツール入力・構造化出力で使うサブセット）
+ *
+ * `as const` を付けて定義すると、InferSchema で対応するTypeScriptの型を得られます。
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+
+  /** object: プロパティ定義 */
+  properties?: { readonly [key: string]: JsonSchema };
+  /** object: 必須プロパティ */
+  required?: readonly string[];
+  /** object: 定義外のプロパティを許可するか、またはその値のスキーマ（デフォルト: true） */
+  additionalProperties?: boolean | JsonSchema;
+
+  /** array: 要素のスキーマ */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  /** string: 文字数の範囲 */
+  minLength?: number;
+  maxLength?: number;
+
+  /** number / integer: 値の範囲 */
+  minimum?: number;
+  maximum?: number;
+
+  /** 許可する値の一覧 */
+  enum?: readonly (string | number | boolean | null)[];
+
+  /** 省略時の値（モデルへの説明用で、検証や型推論には影響しません） */
+  default?: unknown;
+}
+
+/**
+ * スキーマから対応するTypeScriptの型を求める
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   type: 'object',
+ *   properties: { path: { type: 'string' }, limit: { type: 'integer' } },
+ *   required: ['path'],
+ * } as const;
+ *
+ * type Input = InferSchema<typeof schema>; // { path: string; limit?: number }
+ * ```
+ */
+export type InferSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: 'string' }
+    ? string
+    : S extends { type: 'number' | 'integer' }
+      ? number
+      : S extends { type: 'boolean' }
+        ? boolean
+        : S extends { type: 'null' }
+          ? null
+          : S extends { type: 'array'; items: infer I }
+            ? InferSchema<I>[]
+            : S extends { type: 'object'; properties: infer P }
+              ? InferObject<P, S extends { required: readonly (infer R)[] } ? R : never>
+              : S extends { type: 'object'; additionalProperties: infer A extends JsonSchema }
+                ? Record<string, InferSchema<A>>
+                : S extends { type: 'object' }
+                  ? Record<string, unknown>
+                  : unknown;
+
+type InferObject<P, R> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: InferSchema<P[K]> } & {
+    -readonly [K in keyof P as K extends R ? never : K]?: InferSchema<P[K]>;
+  }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * 検証エラー1件
+ */
+export interface SchemaIssue {
+  /** 値の位置（例: '$.tasks[0].agentName'） */
+  path: string;
+  message: string;
+}
+
+/**
+ * 値がスキーマに一致するか検証し、一致しない箇所の一覧を返す（一致すれば空配列）
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const issue = (message: string) => issues.push({ path, message });
+
+  if (schema.enum && !schema.enum.some(candidate => candidate === value)) {
+    issue(`${schema.enum.map(v => JSON.stringify(v)).join(' / ')} のいずれかである必要があります`);
+    return issues;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issue('オブジェクトである必要があります');
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          issues.push({ path: `${path}.${key}`, message: '必須のフィールドがありません' });
+        }
+      }
+      for (const [key, item] of Object.entries(record)) {
+        const property = schema.properties?.[key];
+        if (property) {
+          issues.push(...validateSchema(item, property, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          issues.push({ path: `${path}.${key}`, message: '定義されていないフィールドです' });
+        } else if (typeof schema.additionalProperties === 'object') {
+          issues.push(...validateSchema(item, schema.additionalProperties, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issue('配列である必要があります');
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issue(`${schema.minItems}個以上の要素が必要です`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issue(`要素は${schema.maxItems}個以下である必要があります`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          issues.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        issue('文字列である必要があります');
+      } else if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issue(`${schema.minLength}文字以上である必要があります`);
+      } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issue(`${schema.maxLength}文字以下である必要があります`);
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issue('数値である必要があります');
+      } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issue('整数である必要があります');
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        issue(`${schema.minimum}以上である必要があります`);
+      } else if (schema.maximum !== undefined && value > schema.maximum) {
+        issue(`${schema.maximum}以下である必要があります`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issue('真偽値である必要があります');
+      }
+      break;
+
+    case 'null':
+      if (value !== null) {
+        issue('null である必要があります');
+      }
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * 検証エラーを箇条書きの文字列に整形
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(({ path, message }) => `- ${path}: ${message}`).join('\n');
+}
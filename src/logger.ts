@@ -0,0 +1,286 @@
+/**
+ * ログレベル（debug < info < warn < error）
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * ログに付ける構造化データ
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * 1件のログ
+ */
+export interface LogRecord {
+  /** ISO 8601形式の時刻 */
+  time: string;
+  level: LogLevel;
+  /** ロガー名（子ロガーは '.' で連結、例: 'orchestrator.writer'） */
+  logger: string;
+  message: string;
+  /** 秘密情報・ファイルの内容を伏せた構造化データ */
+  fields: LogFields;
+}
+
+/**
+ * ログの出力先
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * ロガー
+ *
+ * ライブラリのクラスはこのインターフェースを受け取り、出力形式や出力先は呼び出し側で決めます。
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /** 名前と共通のフィールドを引き継いだ子ロガーを作成 */
+  child(name: string, fields?: LogFields): Logger;
+}
+
+/**
+ * 伏せ字の設定
+ */
+export interface RedactOptions {
+  /** 値を伏せるフィールド名（DEFAULT_SECRET_KEYS に追加） */
+  keys?: (string | RegExp)[];
+
+  /** ファイルの内容（content / contents フィールド）を文字数だけにするか（デフォルト: true） */
+  fileContents?: boolean;
+}
+
+/**
+ * StructuredLoggerの設定
+ */
+export interface LoggerOptions {
+  /** ロガー名（デフォルト: なし） */
+  name?: string;
+
+  /** この重要度以上のログだけを出力する（'silent' で出力しない、デフォルト: 'info'） */
+  level?: LogLevel | 'silent';
+
+  /**
+   * 出力形式（デフォルト: 'pretty'）
+   *
+   * - pretty: 人が読むための1行表示
+   * - json: 1行1レコードのJSON（JSON Lines）
+   */
+  format?: 'pretty' | 'json';
+
+  /** 出力先のストリーム（デフォルト: pretty は info 以下を stdout・warn 以上を stderr、json は stdout） */
+  stream?: NodeJS.WritableStream;
+
+  /** 出力先を関数で指定（format・stream より優先） */
+  sink?: LogSink;
+
+  /** 伏せ字の設定（false で無効） */
+  redact?: RedactOptions | false;
+
+  /** すべてのログに付けるフィールド */
+  fields?: LogFields;
+}
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/** 値を伏せる標準のフィールド名 */
+export const DEFAULT_SECRET_KEYS: RegExp[] = [
+  /^(x-)?api[-_]?key$/i,
+  /^authorization$/i,
+  /^(access|refresh|auth|bearer)?[-_]?token$/i,
+  /^(client[-_]?)?secret$/i,
+  /^password$/i,
+  /^cookie$/i,
+];
+
+/** 文字列中のAPIキー */
+const API_KEY_PATTERN = /sk-ant-[A-Za-z0-9_-]+/g;
+
+const FILE_CONTENT_KEYS = new Set(['content', 'contents']);
+
+/**
+ * StructuredLogger
+ *
+ * レベル・子ロガー・伏せ字に対応したロガー。
+ * フィールドは出力前に伏せ字処理されるため、ツールの入力や結果をそのまま渡せます。
+ *
+ * @example
+ * ```typescript
+ * const logger = new StructuredLogger({ level: 'debug', format: 'json' });
+ * const agent = new SandboxedClaudeAgent(apiKey, workDir, { logger });
+ * // {"time":"...","level":"info","logger":"tool","message":"🔧 ツール実行","fields":{"tool":"write_file","input":{"path":"a.txt","content":"[12文字]"}}}
+ * ```
+ */
+export class StructuredLogger implements Logger {
+  private readonly name: string;
+  private readonly level: LogLevel | 'silent';
+  private readonly sink: LogSink;
+  private readonly redactOptions: RedactOptions | false;
+  private readonly fields: LogFields;
+
+  constructor(options: LoggerOptions = {}) {
+    this.name = options.name ?? '';
+    this.level = options.level ?? 'info';
+    this.sink = options.sink ?? createStreamSink(options.format ?? 'pretty', options.stream);
+    this.redactOptions = options.redact ?? {};
+    this.fields = options.fields ?? {};
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  child(name: string, fields: LogFields = {}): Logger {
+    return new StructuredLogger({
+      name: this.name ? `${this.name}.${name}` : name,
+      level: this.level,
+      sink: this.sink,
+      redact: this.redactOptions,
+      fields: { ...this.fields, ...fields },
+    });
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return;
+    }
+    const merged = { ...this.fields, ...fields };
+    this.sink({
+      time: new Date().toISOString(),
+      level,
+      logger: this.name,
+      message: this.redactOptions ? message.replace(API_KEY_PATTERN, redactApiKey) : message,
+      fields: this.redactOptions ? (redact(merged, this.redactOptions) as LogFields) : merged,
+    });
+  }
+}
+
+/**
+ * 何も出力しないロガー
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLogger,
+};
+
+/**
+ * 環境変数の設定でロガーを作成
+ *
+ * - LOG_LEVEL: debug / info / warn / error / silent（デフォルト: info）
+ * - LOG_FORMAT: pretty / json（デフォルト: pretty）
+ */
+export function createLoggerFromEnv(env: NodeJS.ProcessEnv = process.env, options: LoggerOptions = {}): Logger {
+  const level = env.LOG_LEVEL?.toLowerCase();
+  const format = env.LOG_FORMAT?.toLowerCase();
+  return new StructuredLogger({
+    ...options,
+    level: level && level in LEVEL_ORDER ? (level as LogLevel | 'silent') : options.level,
+    format: format === 'json' || format === 'pretty' ? format : options.format,
+  });
+}
+
+let defaultLogger: Logger | undefined;
+
+/**
+ * ロガーを指定しなかった時に使う共通のロガー（初回呼び出し時に環境変数から作成）
+ */
+export function getDefaultLogger(): Logger {
+  defaultLogger ??= createLoggerFromEnv();
+  return defaultLogger;
+}
+
+/**
+ * 共通のロガーを差し替える
+ */
+export function setDefaultLogger(logger: Logger): void {
+  defaultLogger = logger;
+}
+
+/**
+ * 値に含まれる秘密情報・ファイルの内容を伏せる（元の値は変更しない）
+ */
+export function redact(value: unknown, options: RedactOptions = {}, key?: string): unknown {
+  if (key !== undefined) {
+    const secretKeys = [...DEFAULT_SECRET_KEYS, ...(options.keys ?? [])];
+    if (secretKeys.some(pattern => (typeof pattern === 'string' ? pattern === key : pattern.test(key)))) {
+      return '[REDACTED]';
+    }
+    if ((options.fileContents ?? true) && FILE_CONTENT_KEYS.has(key) && typeof value === 'string') {
+      return `[${value.length}文字]`;
+    }
+  }
+
+  if (typeof value === 'string') {
+    return value.replace(API_KEY_PATTERN, redactApiKey);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, options));
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message, options) };
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redact(v, options, k)])
+    );
+  }
+  return value;
+}
+
+function redactApiKey(match: string): string {
+  return `${match.slice(0, 'sk-ant-'.length)}***`;
+}
+
+/**
+ * ストリームに書き出す出力先を作成
+ */
+function createStreamSink(format: 'pretty' | 'json', stream?: NodeJS.WritableStream): LogSink {
+  if (format === 'json') {
+    const out = stream ?? process.stdout;
+    return record => {
+      out.write(JSON.stringify(record) + '\n');
+    };
+  }
+
+  return record => {
+    const out = stream ?? (LEVEL_ORDER[record.level] >= LEVEL_ORDER.warn ? process.stderr : process.stdout);
+    out.write(formatPretty(record) + '\n');
+  };
+}
+
+/**
+ * 人が読むための1行表示（例: "[sandbox] 📖 読み込み成功 path=hello.txt chars=12"）
+ */
+function formatPretty(record: LogRecord): string {
+  const level = record.level === 'info' ? '' : `${record.level.toUpperCase()} `;
+  const fields = Object.entries(record.fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  const logger = record.logger ? `[${record.logger}] ` : '';
+  return `${level}${logger}${record.message}${fields ? ` ${fields}` : ''}`;
+}
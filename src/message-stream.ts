@@ -0,0 +1,217 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * ストリーミング実行中に発行されるイベント
+ *
+ * Messages APIの生のストリームイベントを、UIで扱いやすい形に整理したもの。
+ * iteration はツール使用ループの何回目の応答かを表します（最初の応答は0）。
+ */
+export type AgentStreamEvent =
+  | {
+      type: 'message_start';
+      iteration: number;
+      message: Anthropic.Message;
+    }
+  | {
+      type: 'text_delta';
+      iteration: number;
+      index: number;
+      text: string;
+    }
+  | {
+      type: 'thinking_delta';
+      iteration: number;
+      index: number;
+      thinking: string;
+    }
+  | {
+      type: 'tool_input_delta';
+      iteration: number;
+      index: number;
+      toolUseId: string;
+      toolName: string;
+      partialJson: string;
+    }
+  | {
+      type: 'usage';
+      iteration: number;
+      usage: Anthropic.MessageDeltaUsage;
+    }
+  | {
+      type: 'message_stop';
+      iteration: number;
+      message: Anthropic.Message;
+    };
+
+/**
+ * ストリームイベントのハンドラー
+ */
+export type AgentStreamHandler = (event: AgentStreamEvent) => void;
+
+/**
+ * MessageAccumulator
+ *
+ * 生のストリームイベントを順に適用し、完成したアシスタントメッセージを組み立てる。
+ * 組み立てたメッセージは非ストリーミング時の応答と同じ形で会話履歴に追加できます。
+ */
+export class MessageAccumulator {
+  private message: Anthropic.Message | null = null;
+  private partialJson = new Map<number, string>();
+
+  /**
+   * ストリームイベントを1つ適用
+   */
+  apply(event: Anthropic.RawMessageStreamEvent): void {
+    switch (event.type) {
+      case 'message_start':
+        this.message = { ...event.message, content: [] };
+        break;
+
+      case 'content_block_start': {
+        const message = this.requireMessage();
+        message.content[event.index] = { ...event.content_block };
+        if (event.content_block.type === 'tool_use') {
+          this.partialJson.set(event.index, '');
+        }
+        break;
+      }
+
+      case 'content_block_delta':
+        this.applyDelta(event.index, event.delta);
+        break;
+
+      case 'content_block_stop': {
+        // ツール入力のJSONはブロック終了時にまとめてパースする
+        // max_tokensで途切れた入力はパースできないため空のままにする（実行するかどうかは呼び出し側で判断）
+        const block = this.requireMessage().content[event.index];
+        const json = this.partialJson.get(event.index);
+        if (block?.type === 'tool_use' && json !== undefined) {
+          block.input = parsePartialToolInput(json);
+          this.partialJson.delete(event.index);
+        }
+        break;
+      }
+
+      case 'message_delta': {
+        const message = this.requireMessage();
+        message.stop_reason = event.delta.stop_reason;
+        message.stop_sequence = event.delta.stop_sequence;
+
+        // message_deltaのusageは累積値。nullでない値だけ上書きする
+        const { usage } = event;
+        message.usage = {
+          ...message.usage,
+          output_tokens: usage.output_tokens,
+          input_tokens: usage.input_tokens ?? message.usage.input_tokens,
+          cache_creation_input_tokens:
+            usage.cache_creation_input_tokens ?? message.usage.cache_creation_input_tokens,
+          cache_read_input_tokens:
+            usage.cache_read_input_tokens ?? message.usage.cache_read_input_tokens,
+        };
+        break;
+      }
+
+      case 'message_stop':
+        break;
+    }
+  }
+
+  /**
+   * 組み立て済みのメッセージを取得
+   */
+  getMessage(): Anthropic.Message {
+    return this.requireMessage();
+  }
+
+  /**
+   * content_block_deltaを対応するブロックに反映
+   */
+  private applyDelta(index: number, delta: Anthropic.RawContentBlockDelta): void {
+    const block = this.requireMessage().content[index];
+
+    switch (delta.type) {
+      case 'text_delta':
+        if (block?.type === 'text') block.text += delta.text;
+        break;
+      case 'input_json_delta':
+        this.partialJson.set(index, (this.partialJson.get(index) ?? '') + delta.partial_json);
+        break;
+      case 'thinking_delta':
+        if (block?.type === 'thinking') block.thinking += delta.thinking;
+        break;
+      case 'signature_delta':
+        if (block?.type === 'thinking') block.signature = delta.signature;
+        break;
+      case 'citations_delta':
+        if (block?.type === 'text') {
+          block.citations = [...(block.citations ?? []), delta.citation];
+        }
+        break;
+    }
+  }
+
+  private requireMessage(): Anthropic.Message {
+    if (!this.message) {
+      throw new Error('message_start を受信する前にストリームイベントを受信しました');
+    }
+    return this.message;
+  }
+}
+
+/**
+ * 生のストリームイベントをAgentStreamEventに変換
+ *
+ * 対応するイベントがない場合は null を返します。
+ */
+export function toAgentStreamEvent(
+  event: Anthropic.RawMessageStreamEvent,
+  accumulator: MessageAccumulator,
+  iteration: number
+): AgentStreamEvent | null {
+  switch (event.type) {
+    case 'message_start':
+      return { type: 'message_start', iteration, message: event.message };
+
+    case 'content_block_delta': {
+      if (event.delta.type === 'text_delta') {
+        return { type: 'text_delta', iteration, index: event.index, text: event.delta.text };
+      }
+      if (event.delta.type === 'thinking_delta') {
+        return { type: 'thinking_delta', iteration, index: event.index, thinking: event.delta.thinking };
+      }
+      if (event.delta.type === 'input_json_delta') {
+        const block = accumulator.getMessage().content[event.index];
+        return {
+          type: 'tool_input_delta',
+          iteration,
+          index: event.index,
+          toolUseId: block?.type === 'tool_use' ? block.id : '',
+          toolName: block?.type === 'tool_use' ? block.name : '',
+          partialJson: event.delta.partial_json,
+        };
+      }
+      return null;
+    }
+
+    case 'message_delta':
+      return { type: 'usage', iteration, usage: event.usage };
+
+    case 'message_stop':
+      return { type: 'message_stop', iteration, message: accumulator.getMessage() };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * ストリーミングで受信したツール入力のJSONをパース（不完全な場合は空オブジェクト）
+ */
+function parsePartialToolInput(json: string): unknown {
+  if (json.length === 0) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,188 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * モデルごとの上限と機能
+ */
+export interface ModelInfo {
+  /** モデルID */
+  id: string;
+
+  /** コンテキストウィンドウ（トークン） */
+  contextWindow: number;
+
+  /** 最大出力トークン数 */
+  maxOutputTokens: number;
+
+  /** 拡張思考（thinking）に対応しているか */
+  supportsThinking: boolean;
+}
+
+/**
+ * ModelRegistryの設定
+ */
+export interface ModelRegistryOptions {
+  /** 登録するモデル（デフォルト: DEFAULT_MODELS） */
+  models?: ModelInfo[];
+
+  /** エイリアスとモデルIDの対応（DEFAULT_MODEL_ALIASES に上書きで追加） */
+  aliases?: Record<string, string>;
+
+  /** モデルIDごとのフォールバック先（DEFAULT_MODEL_FALLBACKS に上書きで追加） */
+  fallbacks?: Record<string, string[]>;
+}
+
+/**
+ * デフォルトで登録されるモデル
+ */
+export const DEFAULT_MODELS: ModelInfo[] = [
+  { id: 'claude-opus-4-1-20250805', contextWindow: 200_000, maxOutputTokens: 32_000, supportsThinking: true },
+  { id: 'claude-sonnet-4-5-20250929', contextWindow: 200_000, maxOutputTokens: 64_000, supportsThinking: true },
+  { id: 'claude-sonnet-4-20250514', contextWindow: 200_000, maxOutputTokens: 64_000, supportsThinking: true },
+  { id: 'claude-haiku-4-5-20251001', contextWindow: 200_000, maxOutputTokens: 64_000, supportsThinking: true },
+  { id: 'claude-3-7-sonnet-20250219', contextWindow: 200_000, maxOutputTokens: 64_000, supportsThinking: true },
+  { id: 'claude-3-5-haiku-20241022', contextWindow: 200_000, maxOutputTokens: 8_192, supportsThinking: false },
+];
+
+/**
+ * デフォルトのエイリアス
+ *
+ * - default: 通常のエージェント処理
+ * - smart: 計画や難しい推論など、品質を優先する処理
+ * - fast: 要約や分類など、速度とコストを優先する処理
+ */
+export const DEFAULT_MODEL_ALIASES: Record<string, string> = {
+  default: 'claude-sonnet-4-5-20250929',
+  smart: 'claude-opus-4-1-20250805',
+  fast: 'claude-haiku-4-5-20251001',
+};
+
+/**
+ * デフォルトのフォールバックチェーン（過負荷時に順に切り替える）
+ */
+export const DEFAULT_MODEL_FALLBACKS: Record<string, string[]> = {
+  'claude-opus-4-1-20250805': ['claude-sonnet-4-5-20250929'],
+  'claude-sonnet-4-5-20250929': ['claude-sonnet-4-20250514', 'claude-haiku-4-5-20251001'],
+  'claude-haiku-4-5-20251001': ['claude-3-5-haiku-20241022'],
+};
+
+/**
+ * ModelRegistry
+ *
+ * モデルのエイリアス・上限・フォールバックチェーンを一元管理する。
+ * 登録されていないモデルIDもそのまま使用できます（上限情報は取得できません）。
+ *
+ * @example
+ * ```typescript
+ * const models = new ModelRegistry({ aliases: { default: 'claude-haiku-4-5-20251001' } });
+ * models.resolve('fast');                // 'claude-haiku-4-5-20251001'
+ * models.getFallbackChain('default');    // ['claude-haiku-4-5-20251001', 'claude-3-5-haiku-20241022']
+ * ```
+ */
+export class ModelRegistry {
+  private models = new Map<string, ModelInfo>();
+  private aliases = new Map<string, string>();
+  private fallbacks = new Map<string, string[]>();
+
+  constructor(options: ModelRegistryOptions = {}) {
+    for (const model of options.models ?? DEFAULT_MODELS) {
+      this.register(model);
+    }
+    for (const [alias, model] of Object.entries({ ...DEFAULT_MODEL_ALIASES, ...options.aliases })) {
+      this.setAlias(alias, model);
+    }
+    for (const [model, chain] of Object.entries({ ...DEFAULT_MODEL_FALLBACKS, ...options.fallbacks })) {
+      this.setFallbacks(model, chain);
+    }
+  }
+
+  /**
+   * モデルを登録（同じIDが登録済みの場合は置き換え）
+   */
+  register(model: ModelInfo): this {
+    this.models.set(model.id, model);
+    return this;
+  }
+
+  /**
+   * エイリアスを設定
+   */
+  setAlias(alias: string, model: string): this {
+    this.aliases.set(alias, model);
+    return this;
+  }
+
+  /**
+   * フォールバックチェーンを設定（エイリアスも指定可能）
+   */
+  setFallbacks(model: string, chain: string[]): this {
+    this.fallbacks.set(this.resolve(model), chain);
+    return this;
+  }
+
+  /**
+   * エイリアスをモデルIDに解決（エイリアスでなければそのまま返す）
+   */
+  resolve(nameOrAlias: string): string {
+    return this.aliases.get(nameOrAlias) ?? nameOrAlias;
+  }
+
+  /**
+   * モデル情報を取得（未登録の場合は undefined）
+   */
+  get(nameOrAlias: string): ModelInfo | undefined {
+    return this.models.get(this.resolve(nameOrAlias));
+  }
+
+  /**
+   * 指定モデルから始まるフォールバックチェーンを取得
+   *
+   * 先頭は指定モデル自身で、重複は取り除かれます。
+   */
+  getFallbackChain(nameOrAlias: string): string[] {
+    const primary = this.resolve(nameOrAlias);
+    const chain = (this.fallbacks.get(primary) ?? []).map(model => this.resolve(model));
+    return [...new Set([primary, ...chain])];
+  }
+
+  /**
+   * 登録済みモデルの一覧を取得
+   */
+  list(): ModelInfo[] {
+    return [...this.models.values()];
+  }
+
+  /**
+   * エイリアスの一覧を取得
+   */
+  listAliases(): Record<string, string> {
+    return Object.fromEntries(this.aliases);
+  }
+}
+
+/**
+ * 共有のモデルレジストリ
+ *
+ * エージェントに個別のレジストリを渡さない場合はこれが使われます。
+ */
+export const defaultModelRegistry = new ModelRegistry();
+
+/**
+ * 共有レジストリでエイリアスをモデルIDに解決
+ */
+export function resolveModel(nameOrAlias: string): string {
+  return defaultModelRegistry.resolve(nameOrAlias);
+}
+
+/**
+ * モデルの過負荷を示すエラーかどうかを判定（フォールバックの対象）
+ */
+export function isOverloadedError(error: unknown): boolean {
+  if (!(error instanceof Anthropic.APIError)) {
+    return false;
+  }
+  if (error.status === 529) {
+    return true;
+  }
+  const body = error.error as { error?: { type?: string } } | undefined;
+  return body?.error?.type === 'overloaded_error';
+}
@@ -0,0 +1,493 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { SandboxedAgentOptions, SandboxedClaudeAgent } from './sandboxed-agent';
+import { SessionStore, removeLastTurn } from './session-store';
+import { TodoManager } from './todo-manager';
+import { createTodoWriteTool } from './todo-agent';
+import { UsageTracker, formatUsage } from './usage-tracker';
+import { ModelRegistry, defaultModelRegistry } from './model-registry';
+import { hasApiAccess } from './cassette';
+import { createConfigHooks, createModelRegistry, loadAgentConfig } from './agent-config';
+
+dotenv.config();
+
+/**
+ * AgentReplのオプション
+ *
+ * tools・verbose・usageTracker 以外は SandboxedClaudeAgent にそのまま渡されます。
+ * showThinking を指定すると、思考の内容も応答と同じようにストリーミングで表示します。
+ */
+export interface AgentReplOptions extends Omit<SandboxedAgentOptions, 'tools' | 'verbose' | 'usageTracker'> {
+  /** 再開するセッションID（省略時は新しいセッション） */
+  sessionId?: string;
+
+  /** 入出力（デフォルト: process.stdin / process.stdout） */
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/** 入力履歴の最大件数 */
+const HISTORY_SIZE = 500;
+
+/** 複数行入力のブロックの区切り */
+const MULTILINE_DELIMITER = '"""';
+
+const HELP_TEXT = `コマンド:
+  /tools            使用できるツールの一覧
+  /todos            現在のセッションのTodo
+  /cost             このREPLでの使用量と料金
+  /model [alias]    モデルの表示・切り替え（例: /model fast）
+  /save [name]      セッションを名前を付けて保存し、以降はその名前で続ける
+  /load [name]      保存済みセッションの一覧・読み込み
+  /clear            会話を破棄して新しいセッションを始める
+  /workdir          作業ディレクトリとファイルの一覧
+  /undo             最後のターンを会話履歴から取り除く（ファイルの変更は元に戻りません）
+  /help             このヘルプ
+  /exit             終了
+
+入力:
+  行末の \\ で次の行に続けて入力、${MULTILINE_DELIMITER} で囲むと複数行をまとめて送信
+  実行中の Ctrl+C で応答を中断、入力中の Ctrl+C を2回で終了`;
+
+/**
+ * AgentRepl
+ *
+ * サンドボックス化されたエージェントと対話するターミナルREPL。
+ * 会話はセッションとして作業ディレクトリの .sessions に保存され、ターンをまたいで引き継がれる。
+ * Todoツールも登録され、Todoはセッションごとに保存されます。
+ *
+ * @example
+ * ```typescript
+ * const repl = new AgentRepl(process.env.ANTHROPIC_API_KEY ?? '', '/tmp/claude-workspace', { model: 'fast' });
+ * await repl.start();
+ * ```
+ */
+export class AgentRepl {
+  private agent: SandboxedClaudeAgent;
+  private showThinking: boolean;
+  private sessionStore: SessionStore;
+  private models: ModelRegistry;
+  private usageTracker = new UsageTracker();
+  private sessionId: string;
+  private todos: TodoManager;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private rl?: readline.Interface;
+
+  /** 複数行入力の途中の行 */
+  private pendingLines: string[] = [];
+  /** """ で始まるブロック入力の途中かどうか */
+  private inBlock = false;
+  /** 実行中のターンの中断用 */
+  private running?: AbortController;
+  /** 入力中に Ctrl+C が押されたか（2回目で終了） */
+  private interruptRequested = false;
+  private closed = false;
+
+  constructor(apiKey: string, workDir: string, options: AgentReplOptions = {}) {
+    const { sessionId, input, output, showThinking, ...agentOptions } = options;
+    this.showThinking = showThinking ?? false;
+    this.input = input ?? process.stdin;
+    this.output = output ?? process.stdout;
+    this.models = options.models ?? defaultModelRegistry;
+
+    // Todoの保存先はセッションの切り替えに合わせて変わるため、現在の TodoManager を参照させる
+    this.agent = new SandboxedClaudeAgent(apiKey, workDir, {
+      ...agentOptions,
+      tools: [createTodoWriteTool(() => this.todos)],
+      usageTracker: this.usageTracker,
+      verbose: false,
+    });
+    this.sessionStore = this.agent.getSessionStore();
+    this.sessionId = sessionId ?? SessionStore.generateId();
+    this.todos = new TodoManager(this.sessionStore.getTodoFilePath(this.sessionId));
+  }
+
+  /**
+   * REPLを開始し、/exit または入力の終了（Ctrl+D）まで対話する
+   */
+  async start(): Promise<void> {
+    const historyFile = path.join(this.agent.getWorkDir(), '.sessions', 'repl_history');
+    const rl = readline.createInterface({
+      input: this.input,
+      output: this.output,
+      history: loadHistory(historyFile),
+      historySize: HISTORY_SIZE,
+      terminal: (this.output as NodeJS.WriteStream).isTTY === true,
+    });
+    this.rl = rl;
+
+    this.print(`🤖 Claude Agent REPL（/help でコマンド一覧）`);
+    this.print(`📁 作業ディレクトリ: ${this.agent.getWorkDir()}`);
+    this.print(`🗂️  セッション: ${this.sessionId}`);
+    this.print(`🧠 モデル: ${this.describeModel(this.agent.getModel())}\n`);
+
+    rl.on('SIGINT', () => this.onInterrupt());
+    rl.on('history', (history: string[]) => saveHistory(historyFile, history));
+
+    const closed = new Promise<void>(resolve =>
+      rl.once('close', () => {
+        this.closed = true;
+        resolve();
+      })
+    );
+    let queue = Promise.resolve();
+    rl.on('line', line => {
+      // 行は到着順に1つずつ処理する（実行中の入力は待たせる）
+      queue = queue.then(() => this.onLine(line));
+    });
+
+    rl.setPrompt('> ');
+    rl.prompt();
+    await closed;
+    await queue;
+    this.running?.abort();
+  }
+
+  /**
+   * 1行の入力を処理（複数行入力の途中なら次の行を待つ）
+   */
+  private async onLine(line: string): Promise<void> {
+    this.interruptRequested = false;
+
+    if (this.inBlock) {
+      if (line.trim() === MULTILINE_DELIMITER) {
+        this.inBlock = false;
+        await this.submit(this.takePending());
+      } else {
+        this.pendingLines.push(line);
+        this.prompt('... ');
+      }
+      return;
+    }
+
+    if (line.trim() === MULTILINE_DELIMITER) {
+      this.inBlock = true;
+      this.prompt('... ');
+      return;
+    }
+
+    if (line.endsWith('\\')) {
+      this.pendingLines.push(line.slice(0, -1));
+      this.prompt('... ');
+      return;
+    }
+
+    this.pendingLines.push(line);
+    await this.submit(this.takePending());
+  }
+
+  /**
+   * 入力をコマンドまたはエージェントへのメッセージとして処理
+   */
+  private async submit(text: string): Promise<void> {
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      this.prompt();
+      return;
+    }
+
+    try {
+      if (trimmed.startsWith('/') && !trimmed.includes('\n')) {
+        const keepGoing = this.handleCommand(trimmed);
+        if (!keepGoing) {
+          this.rl?.close();
+          return;
+        }
+      } else {
+        await this.runTurn(text);
+      }
+    } catch (error) {
+      this.print(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.prompt();
+  }
+
+  /**
+   * エージェントに1ターン分のメッセージを送り、応答をストリーミングで表示
+   */
+  private async runTurn(text: string): Promise<void> {
+    const controller = new AbortController();
+    this.running = controller;
+
+    try {
+      let streamed = false;
+      let thinking = false;
+      const result = await this.agent.runStreaming(
+        text,
+        event => {
+          if (event.type === 'thinking_delta' && this.showThinking) {
+            if (!thinking) {
+              this.output.write(`${streamed ? '\n' : ''}💭 `);
+              thinking = true;
+            }
+            this.output.write(event.thinking);
+            streamed = true;
+          }
+          if (event.type === 'text_delta') {
+            if (thinking) {
+              this.output.write('\n\n');
+              thinking = false;
+            }
+            this.output.write(event.text);
+            streamed = true;
+          }
+        },
+        { sessionId: this.sessionId, signal: controller.signal }
+      );
+
+      if (streamed) {
+        this.print('');
+      }
+      if (result.stopReason === 'aborted') {
+        this.print(`⏹️  中断しました: ${result.stopDetail}`);
+      } else if (result.stopReason !== 'end_turn') {
+        this.print(`⚠️  停止理由: ${result.stopReason}${result.stopDetail ? `（${result.stopDetail}）` : ''}`);
+      }
+      this.print(`💰 ${formatUsage(result.usage)}`);
+    } finally {
+      this.running = undefined;
+    }
+  }
+
+  /**
+   * スラッシュコマンドを実行（/exit の場合は false を返す）
+   */
+  private handleCommand(line: string): boolean {
+    const [command, ...args] = line.split(/\s+/);
+    const arg = args.join(' ');
+
+    switch (command) {
+      case '/help':
+        this.print(HELP_TEXT);
+        break;
+
+      case '/tools':
+        for (const tool of this.agent.getTools()) {
+          this.print(`🔧 ${tool.name}: ${(tool.description ?? '').split('\n')[0]}`);
+        }
+        break;
+
+      case '/todos':
+        if (this.todos.getAll().length === 0) {
+          this.print('📋 Todoはありません');
+        } else {
+          this.todos.display(this.output);
+        }
+        break;
+
+      case '/cost':
+        this.showCost();
+        break;
+
+      case '/model':
+        this.changeModel(arg);
+        break;
+
+      case '/save':
+        this.saveSession(arg);
+        break;
+
+      case '/load':
+        this.loadSession(arg);
+        break;
+
+      case '/clear':
+        this.switchSession(SessionStore.generateId());
+        this.print(`🧹 新しいセッションを開始しました: ${this.sessionId}`);
+        break;
+
+      case '/workdir':
+        this.showWorkDir();
+        break;
+
+      case '/undo':
+        this.undo();
+        break;
+
+      case '/exit':
+      case '/quit':
+        return false;
+
+      default:
+        this.print(`❓ 不明なコマンドです: ${command}（/help でコマンド一覧）`);
+    }
+    return true;
+  }
+
+  private showCost(): void {
+    this.print(`💰 合計: ${formatUsage(this.usageTracker.getTotals())}`);
+    this.print(`📊 API呼び出し: ${this.usageTracker.getRecords().length}回`);
+  }
+
+  private changeModel(model: string): void {
+    if (!model) {
+      this.print(`🧠 現在のモデル: ${this.describeModel(this.agent.getModel())}`);
+      const aliases = Object.entries(this.models.listAliases());
+      this.print(`   エイリアス: ${aliases.map(([alias, id]) => `${alias} (${id})`).join(', ')}`);
+      return;
+    }
+    if (!this.models.get(model)) {
+      throw new Error(`登録されていないモデルです: ${model}（/model でエイリアスの一覧を表示）`);
+    }
+    this.agent.setModel(model);
+    this.print(`🧠 モデルを切り替えました: ${this.describeModel(model)}`);
+  }
+
+  private saveSession(name: string): void {
+    const session = this.sessionStore.load(this.sessionId);
+    if (!session) {
+      this.print('💾 保存する会話がありません');
+      return;
+    }
+    if (!name || name === this.sessionId) {
+      this.print(`💾 保存済みです: ${this.sessionStore.getSessionFilePath(this.sessionId)}`);
+      return;
+    }
+
+    this.sessionStore.save({ ...session, id: name });
+    const todoFile = this.sessionStore.getTodoFilePath(this.sessionId);
+    if (fs.existsSync(todoFile)) {
+      fs.copyFileSync(todoFile, this.sessionStore.getTodoFilePath(name));
+    }
+    this.switchSession(name);
+    this.print(`💾 セッションを保存しました: ${name}（以降の会話もこのセッションに保存されます）`);
+  }
+
+  private loadSession(name: string): void {
+    if (!name) {
+      const sessions = this.sessionStore.list();
+      this.print(sessions.length > 0 ? `🗂️  保存済みセッション:\n${sessions.map(id => `  - ${id}`).join('\n')}` : '🗂️  保存済みのセッションはありません');
+      return;
+    }
+
+    const session = this.sessionStore.load(name);
+    if (!session) {
+      throw new Error(`セッションが見つかりません: ${name}`);
+    }
+    this.switchSession(name);
+    this.print(`📂 セッションを読み込みました: ${name}（${session.messages.length}件のメッセージ）`);
+  }
+
+  private showWorkDir(): void {
+    const workDir = this.agent.getWorkDir();
+    const files = fs.readdirSync(workDir).filter(name => !name.startsWith('.'));
+    this.print(`📁 ${workDir}`);
+    this.print(files.length > 0 ? files.map(name => `  - ${name}`).join('\n') : '  （ファイルはありません）');
+  }
+
+  private undo(): void {
+    const session = this.sessionStore.load(this.sessionId);
+    const messages = session ? removeLastTurn(session.messages) : [];
+    if (!session || messages.length === session.messages.length) {
+      this.print('↩️  取り消すターンがありません');
+      return;
+    }
+    this.sessionStore.save({ ...session, messages });
+    this.print(`↩️  最後のターンを取り消しました（${session.messages.length - messages.length}件のメッセージを削除）`);
+  }
+
+  /**
+   * 現在のセッションを切り替え、Todoの保存先も合わせて切り替える
+   */
+  private switchSession(sessionId: string): void {
+    this.sessionId = sessionId;
+    this.todos = new TodoManager(this.sessionStore.getTodoFilePath(sessionId));
+  }
+
+  /**
+   * Ctrl+C の処理（実行中なら中断、入力中なら入力を破棄、空の入力で2回押すと終了）
+   */
+  private onInterrupt(): void {
+    if (this.running) {
+      this.running.abort();
+      return;
+    }
+    if (this.pendingLines.length > 0 || this.inBlock || this.rl?.line) {
+      this.takePending();
+      this.inBlock = false;
+      this.print('');
+      this.prompt();
+      return;
+    }
+    if (this.interruptRequested) {
+      this.rl?.close();
+      return;
+    }
+    this.interruptRequested = true;
+    this.print('\n（もう一度 Ctrl+C で終了、または /exit）');
+    this.prompt();
+  }
+
+  private takePending(): string {
+    const text = this.pendingLines.join('\n');
+    this.pendingLines = [];
+    return text;
+  }
+
+  private describeModel(model: string): string {
+    const id = this.models.resolve(model);
+    return id === model ? id : `${model} (${id})`;
+  }
+
+  private prompt(prompt = '> '): void {
+    if (this.closed) return;
+    this.rl?.setPrompt(prompt);
+    this.rl?.prompt();
+  }
+
+  private print(text: string): void {
+    this.output.write(`${text}\n`);
+  }
+}
+
+/**
+ * 入力履歴を読み込む（readline は新しいものが先頭）
+ */
+function loadHistory(file: string): string[] {
+  try {
+    return fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).reverse().slice(0, HISTORY_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(file: string, history: string[]): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, [...history].reverse().join('\n') + '\n', 'utf-8');
+  } catch {
+    // 履歴を保存できなくてもREPLは続ける
+  }
+}
+
+/**
+ * REPLを起動
+ *
+ * 作業ディレクトリやモデルは設定（.agentrc.json や環境変数 CLAUDE_WORK_DIR、デフォルト: /tmp/claude-workspace）、
+ * 引数でセッションIDを指定すると続きから再開します。
+ */
+async function main() {
+  if (!hasApiAccess()) {
+    console.error('❌ エラー: ANTHROPIC_API_KEYが設定されていません');
+    console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+    console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
+    return;
+  }
+
+  const { config } = loadAgentConfig();
+  const repl = new AgentRepl(process.env.ANTHROPIC_API_KEY ?? '', config.sandbox.workDir, {
+    model: config.model,
+    models: createModelRegistry(config),
+    hooks: createConfigHooks(config),
+    allowedExtensions: config.sandbox.allowedExtensions,
+    sessionId: process.argv[2],
+  });
+  await repl.start();
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,195 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { sleep } from './cancellation';
+import { cassetteFromEnv, withCassette } from './cassette';
+
+/**
+ * リトライ設定
+ */
+export interface RetryOptions {
+  /** 最大リトライ回数（デフォルト: 5） */
+  maxRetries?: number;
+
+  /** バックオフの基準待ち時間（ミリ秒、デフォルト: 500） */
+  baseDelayMs?: number;
+
+  /** 1回あたりの最大待ち時間（ミリ秒、デフォルト: 30000） */
+  maxDelayMs?: number;
+
+  /** 最初の試行からリトライを打ち切るまでの合計時間（ミリ秒、デフォルト: 120000） */
+  maxTotalTimeMs?: number;
+
+  /** リトライ可能なエラーかどうかの判定（デフォルト: isRetryableError） */
+  isRetryable?: (error: unknown) => boolean;
+
+  /** リトライ前に呼ばれるコールバック */
+  onRetry?: (info: RetryInfo) => void;
+
+  /** 中断用シグナル（中断されるとリトライ待機中でもすぐに打ち切る） */
+  signal?: AbortSignal;
+}
+
+/**
+ * リトライ時に通知される情報
+ */
+export interface RetryInfo {
+  /** 次が何回目のリトライか（1始まり） */
+  attempt: number;
+  /** 次の試行までの待ち時間（ミリ秒） */
+  delayMs: number;
+  /** 失敗の原因となったエラー */
+  error: unknown;
+}
+
+export const DEFAULT_RETRY_OPTIONS = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  maxTotalTimeMs: 120_000,
+} as const;
+
+/** リトライ対象とするHTTPステータス（タイムアウト・競合・レート制限・過負荷） */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 529]);
+
+/** ストリーム途中で返されるリトライ可能なエラー種別 */
+const RETRYABLE_ERROR_TYPES = new Set(['overloaded_error', 'rate_limit_error', 'api_error']);
+
+/**
+ * エラーがリトライ可能かどうかを判定
+ *
+ * - 接続エラー・タイムアウト: リトライする
+ * - 408 / 409 / 429 / 529 / 5xx: リトライする
+ * - ストリーム途中の overloaded_error など: リトライする
+ * - 400 / 401 / 403 / 404 / 413 / 422 やユーザーによる中断: リトライしない
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof Anthropic.APIUserAbortError) {
+    return false;
+  }
+  if (error instanceof Anthropic.APIConnectionError) {
+    return true;
+  }
+  if (!(error instanceof Anthropic.APIError)) {
+    return false;
+  }
+
+  const shouldRetryHeader = error.headers?.get('x-should-retry');
+  if (shouldRetryHeader === 'true') return true;
+  if (shouldRetryHeader === 'false') return false;
+
+  if (error.status !== undefined) {
+    return RETRYABLE_STATUSES.has(error.status) || error.status >= 500;
+  }
+
+  // ステータスのないエラーはストリーム途中のerrorイベント
+  const body = error.error as { error?: { type?: string } } | undefined;
+  return RETRYABLE_ERROR_TYPES.has(body?.error?.type ?? '');
+}
+
+/**
+ * retry-after-ms / retry-after ヘッダーから待ち時間（ミリ秒）を取得
+ *
+ * retry-after は秒数またはHTTP日付のどちらの形式にも対応します。
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof Anthropic.APIError) || !error.headers) {
+    return undefined;
+  }
+
+  const retryAfterMs = Number(error.headers.get('retry-after-ms'));
+  if (error.headers.has('retry-after-ms') && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = error.headers.get('retry-after');
+  if (retryAfter === null) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 指数バックオフ（フルジッター）の待ち時間を計算
+ */
+export function computeBackoffMs(
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'> = {}
+): number {
+  const base = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs;
+  const max = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+  const ceiling = Math.min(max, base * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * 非同期処理をリトライ付きで実行
+ *
+ * リトライ可能なエラーの場合は retry-after ヘッダーを優先し、
+ * なければ指数バックオフ＋ジッターで待機して再試行する。
+ * リトライ回数か合計時間の上限に達した場合は最後のエラーをそのまま投げる。
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries;
+  const maxTotalTimeMs = options.maxTotalTimeMs ?? DEFAULT_RETRY_OPTIONS.maxTotalTimeMs;
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryAfterMs(error) ?? computeBackoffMs(attempt, options);
+      if (Date.now() - startedAt + delayMs > maxTotalTimeMs) {
+        throw error;
+      }
+
+      options.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * リトライ付きで messages.create を呼び出す
+ *
+ * @example
+ * ```typescript
+ * const response = await createMessageWithRetry(client, params, {
+ *   onRetry: ({ attempt, delayMs }) => console.log(`リトライ ${attempt}回目 (${delayMs}ms後)`),
+ * });
+ * ```
+ *
+ * @param headers - リクエストに付けるヘッダー（AgentQueryBuilder.buildHeaders() の結果など）
+ */
+export async function createMessageWithRetry(
+  client: Anthropic,
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  options: RetryOptions = {},
+  headers?: Record<string, string>
+): Promise<Anthropic.Message> {
+  return await withRetry(
+    () => client.messages.create(params, { signal: options.signal, headers }),
+    options
+  );
+}
+
+/**
+ * リトライ処理をこのレイヤーに一本化するため、SDK自体のリトライを無効化したクライアントを作成
+ *
+ * 環境変数 ANTHROPIC_CASSETTE が設定されている場合は、そのカセットで記録・再生します（options.fetch 指定時を除く）。
+ */
+export function createResilientClient(options: ConstructorParameters<typeof Anthropic>[0] = {}): Anthropic {
+  const cassette = options.fetch ? null : cassetteFromEnv();
+  return new Anthropic(withCassette(cassette, { ...options, maxRetries: 0 }));
+}
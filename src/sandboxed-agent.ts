@@ -2,6 +2,21 @@ import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import * as fs from 'fs';
+import { AgentRunner, AgentRunOptions, AgentRunResult, ToolRegistry } from './agent-runner';
+import { AgentStreamHandler } from './message-stream';
+import { DefinedTool, defineTool } from './define-tool';
+import { SandboxError, ToolError } from './agent-errors';
+import { HookManager } from './hook-manager';
+import { RetryOptions, createResilientClient } from './resilient-client';
+import { SessionStore } from './session-store';
+import { ContextManager, ContextManagerOptions } from './context-manager';
+import { UsageBudget, UsageTracker, formatUsage } from './usage-tracker';
+import { ModelRegistry, defaultModelRegistry } from './model-registry';
+import { DEFAULT_AGENT_CONFIG, ThinkingOptions, extractThinking, thinkingQuery } from './agent-query-types';
+import { interruptOnSigint } from './cancellation';
+import { hasApiAccess } from './cassette';
+import { Logger, getDefaultLogger } from './logger';
+import { createConfigHooks, createModelRegistry, loadAgentConfig } from './agent-config';
 
 dotenv.config();
 
@@ -14,14 +29,17 @@ dotenv.config();
 class SandboxedFileSystem {
   private workDir: string;
   private allowedExtensions: string[];
+  private logger: Logger;
 
   /**
    * @param workDir - 作業ディレクトリ（絶対パスまたは相対パス）
-   * @param allowedExtensions - 許可するファイル拡張子（デフォルト: .txt, .json, .md）
+   * @param allowedExtensions - 許可するファイル拡張子（デフォルト: .txt, .json, .md, .csv）
+   * @param logger - ファイル操作のログの出力先（デフォルト: 共通のロガーの 'sandbox'）
    */
   constructor(
     workDir: string,
-    allowedExtensions: string[] = ['.txt', '.json', '.md', '.csv']
+    allowedExtensions: string[] = ['.txt', '.json', '.md', '.csv'],
+    logger: Logger = getDefaultLogger().child('sandbox')
   ) {
     // 絶対パスに解決
     this.workDir = path.isAbsolute(workDir)
@@ -29,27 +47,32 @@ class SandboxedFileSystem {
       : path.resolve(process.cwd(), workDir);
 
     this.allowedExtensions = allowedExtensions;
+    this.logger = logger;
 
     // 作業ディレクトリが存在しない場合は作成
     if (!fs.existsSync(this.workDir)) {
       fs.mkdirSync(this.workDir, { recursive: true });
-      console.log(`✅ 作業ディレクトリを作成: ${this.workDir}`);
+      this.logger.info('✅ 作業ディレクトリを作成', { workDir: this.workDir });
     }
 
-    console.log(`🔒 サンドボックス作業ディレクトリ: ${this.workDir}`);
-    console.log(`📝 許可された拡張子: ${allowedExtensions.join(', ')}`);
+    this.logger.info('🔒 サンドボックス作業ディレクトリ', {
+      workDir: this.workDir,
+      allowedExtensions: allowedExtensions.join(', '),
+    });
   }
 
   /**
    * パスが作業ディレクトリ内にあるかチェック
    */
   private isPathSafe(filePath: string): boolean {
-    const absolutePath = this.resolvePath(filePath);
-    const normalizedPath = path.normalize(absolutePath);
-    const normalizedWorkDir = path.normalize(this.workDir);
+    const relativePath = path.relative(path.normalize(this.workDir), path.normalize(this.resolvePath(filePath)));
 
-    // パストラバーサル攻撃を防ぐ
-    return normalizedPath.startsWith(normalizedWorkDir);
+    // パストラバーサル攻撃を防ぐ（前方一致では /tmp/claude-workspace-evil のような隣のディレクトリも通ってしまう）
+    return (
+      relativePath !== '..' &&
+      !relativePath.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relativePath)
+    );
   }
 
   /**
@@ -68,68 +91,77 @@ class SandboxedFileSystem {
   }
 
   /**
-   * ファイルを読み込む
+   * 相対パスを解決し、作業ディレクトリ外を指していれば SandboxError を投げる
    */
-  readFile(relativePath: string): { success: boolean; content?: string; error?: string } {
+  private resolveSafePath(relativePath: string): string {
+    const fullPath = this.resolvePath(relativePath);
+
+    // セキュリティチェック
+    if (!this.isPathSafe(fullPath)) {
+      throw new SandboxError(
+        'PATH_OUTSIDE_SANDBOX',
+        `パスが作業ディレクトリ外を指しています: ${relativePath}`,
+        relativePath
+      );
+    }
+
+    return fullPath;
+  }
+
+  /**
+   * ファイル操作を実行し、想定外の例外を IO_ERROR の SandboxError に変換
+   */
+  private withIoError<T>(relativePath: string, operation: () => T): T {
     try {
-      const fullPath = this.resolvePath(relativePath);
-
-      // セキュリティチェック
-      if (!this.isPathSafe(fullPath)) {
-        return {
-          success: false,
-          error: `⛔ セキュリティエラー: パスが作業ディレクトリ外を指しています: ${relativePath}`,
-        };
+      return operation();
+    } catch (error) {
+      if (error instanceof SandboxError) {
+        throw error;
       }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SandboxError('IO_ERROR', `${relativePath}: ${errorMessage}`, relativePath, error);
+    }
+  }
+
+  /**
+   * ファイルを読み込む
+   *
+   * @throws {SandboxError} PATH_OUTSIDE_SANDBOX / NOT_FOUND / NOT_A_FILE / IO_ERROR
+   */
+  readFile(relativePath: string): { success: true; content: string } {
+    return this.withIoError(relativePath, () => {
+      const fullPath = this.resolveSafePath(relativePath);
 
       if (!fs.existsSync(fullPath)) {
-        return {
-          success: false,
-          error: `❌ ファイルが存在しません: ${relativePath}`,
-        };
+        throw new SandboxError('NOT_FOUND', `ファイルが存在しません: ${relativePath}`, relativePath);
       }
 
       if (!fs.statSync(fullPath).isFile()) {
-        return {
-          success: false,
-          error: `❌ ファイルではありません: ${relativePath}`,
-        };
+        throw new SandboxError('NOT_A_FILE', `ファイルではありません: ${relativePath}`, relativePath);
       }
 
       const content = fs.readFileSync(fullPath, 'utf-8');
-      console.log(`📖 読み込み成功: ${relativePath} (${content.length}文字)`);
+      this.logger.debug('📖 読み込み成功', { path: relativePath, chars: content.length });
 
       return { success: true, content };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`❌ 読み込みエラー: ${relativePath} - ${errorMessage}`);
-      return { success: false, error: errorMessage };
-    }
+    });
   }
 
   /**
    * ファイルに書き込む
+   *
+   * @throws {SandboxError} PATH_OUTSIDE_SANDBOX / EXTENSION_NOT_ALLOWED / IO_ERROR
    */
-  writeFile(
-    relativePath: string,
-    content: string
-  ): { success: boolean; error?: string } {
-    try {
-      const fullPath = this.resolvePath(relativePath);
-
-      // セキュリティチェック
-      if (!this.isPathSafe(fullPath)) {
-        return {
-          success: false,
-          error: `⛔ セキュリティエラー: パスが作業ディレクトリ外を指しています: ${relativePath}`,
-        };
-      }
+  writeFile(relativePath: string, content: string): { success: true } {
+    return this.withIoError(relativePath, () => {
+      const fullPath = this.resolveSafePath(relativePath);
 
       if (!this.isExtensionAllowed(fullPath)) {
-        return {
-          success: false,
-          error: `⛔ 許可されていない拡張子です: ${path.extname(relativePath)}`,
-        };
+        throw new SandboxError(
+          'EXTENSION_NOT_ALLOWED',
+          `許可されていない拡張子です: ${path.extname(relativePath) || '（拡張子なし）'}`,
+          relativePath
+        );
       }
 
       // ディレクトリが存在しない場合は作成
@@ -139,87 +171,58 @@ class SandboxedFileSystem {
       }
 
       fs.writeFileSync(fullPath, content, 'utf-8');
-      console.log(`✍️  書き込み成功: ${relativePath} (${content.length}文字)`);
+      this.logger.debug('✍️  書き込み成功', { path: relativePath, chars: content.length });
 
       return { success: true };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`❌ 書き込みエラー: ${relativePath} - ${errorMessage}`);
-      return { success: false, error: errorMessage };
-    }
+    });
   }
 
   /**
    * ディレクトリ内のファイル一覧を取得
+   *
+   * @throws {SandboxError} PATH_OUTSIDE_SANDBOX / NOT_FOUND / NOT_A_DIRECTORY / IO_ERROR
    */
-  listFiles(relativePath: string = '.'): { success: boolean; files?: string[]; error?: string } {
-    try {
-      const fullPath = this.resolvePath(relativePath);
-
-      // セキュリティチェック
-      if (!this.isPathSafe(fullPath)) {
-        return {
-          success: false,
-          error: `⛔ セキュリティエラー: パスが作業ディレクトリ外を指しています: ${relativePath}`,
-        };
-      }
+  listFiles(relativePath: string = '.'): { success: true; files: string[] } {
+    return this.withIoError(relativePath, () => {
+      const fullPath = this.resolveSafePath(relativePath);
 
       if (!fs.existsSync(fullPath)) {
-        return {
-          success: false,
-          error: `❌ ディレクトリが存在しません: ${relativePath}`,
-        };
+        throw new SandboxError('NOT_FOUND', `ディレクトリが存在しません: ${relativePath}`, relativePath);
       }
 
       if (!fs.statSync(fullPath).isDirectory()) {
-        return {
-          success: false,
-          error: `❌ ディレクトリではありません: ${relativePath}`,
-        };
+        throw new SandboxError('NOT_A_DIRECTORY', `ディレクトリではありません: ${relativePath}`, relativePath);
       }
 
       const files = fs.readdirSync(fullPath);
-      console.log(`📂 一覧取得成功: ${relativePath} (${files.length}個)`);
+      this.logger.debug('📂 一覧取得成功', { path: relativePath, count: files.length });
 
       return { success: true, files };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`❌ 一覧取得エラー: ${relativePath} - ${errorMessage}`);
-      return { success: false, error: errorMessage };
-    }
+    });
   }
 
   /**
    * ファイルを削除
+   *
+   * @throws {SandboxError} PATH_OUTSIDE_SANDBOX / NOT_FOUND / NOT_A_FILE / IO_ERROR
    */
-  deleteFile(relativePath: string): { success: boolean; error?: string } {
-    try {
-      const fullPath = this.resolvePath(relativePath);
-
-      // セキュリティチェック
-      if (!this.isPathSafe(fullPath)) {
-        return {
-          success: false,
-          error: `⛔ セキュリティエラー: パスが作業ディレクトリ外を指しています: ${relativePath}`,
-        };
-      }
+  deleteFile(relativePath: string): { success: true } {
+    return this.withIoError(relativePath, () => {
+      const fullPath = this.resolveSafePath(relativePath);
 
       if (!fs.existsSync(fullPath)) {
-        return {
-          success: false,
-          error: `❌ ファイルが存在しません: ${relativePath}`,
-        };
+        throw new SandboxError('NOT_FOUND', `ファイルが存在しません: ${relativePath}`, relativePath);
+      }
+
+      if (!fs.statSync(fullPath).isFile()) {
+        throw new SandboxError('NOT_A_FILE', `ファイルではありません: ${relativePath}`, relativePath);
       }
 
       fs.unlinkSync(fullPath);
-      console.log(`🗑️  削除成功: ${relativePath}`);
+      this.logger.debug('🗑️  削除成功', { path: relativePath });
 
       return { success: true };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`❌ 削除エラー: ${relativePath} - ${errorMessage}`);
-      return { success: false, error: errorMessage };
-    }
+    });
   }
 
   /**
@@ -230,6 +233,71 @@ class SandboxedFileSystem {
   }
 }
 
+/**
+ * SandboxedClaudeAgentのオプション
+ */
+interface SandboxedAgentOptions {
+  /** 使用するクライアント（省略時はapiKeyから作成） */
+  client?: Anthropic;
+
+  /** ツール実行やリクエストに割り込むHook */
+  hooks?: HookManager;
+
+  /** リクエスト失敗時のリトライ設定 */
+  retry?: RetryOptions;
+
+  /** コンテキストウィンドウ管理の設定 */
+  context?: ContextManagerOptions;
+
+  /** 使用量の記録先（複数のエージェントで共有可能） */
+  usageTracker?: UsageTracker;
+
+  /** 1回の実行あたりの使用量の上限 */
+  budget?: UsageBudget;
+
+  /** 使用するモデル（モデルIDまたはエイリアス、デフォルト: 'default'） */
+  model?: string;
+
+  /** モデルのエイリアス解決とフォールバックに使うレジストリ */
+  models?: ModelRegistry;
+
+  /** 1回の応答の最大トークン数（デフォルト: 4096、拡張思考を有効にした場合はその予算を加えた値） */
+  maxTokens?: number;
+
+  /** 拡張思考の設定（思考ブロックは会話履歴にそのまま残されます） */
+  thinking?: ThinkingOptions;
+
+  /** 思考の内容をログに表示するか（デフォルト: false） */
+  showThinking?: boolean;
+
+  /** 1回の実行全体の制限時間（ミリ秒） */
+  timeoutMs?: number;
+
+  /** ファイル操作ツール1回あたりの制限時間（ミリ秒） */
+  toolTimeoutMs?: number;
+
+  /** 読み書きを許可する拡張子（デフォルト: .txt, .json, .md, .csv） */
+  allowedExtensions?: string[];
+
+  /** ファイル操作ツールに加えて登録するツール */
+  tools?: DefinedTool[];
+
+  /** 有効にするツール名（省略時はすべて、登録されていない名前を含むと例外） */
+  toolNames?: string[];
+
+  /** システムプロンプト */
+  systemPrompt?: string;
+
+  /** 1回の実行あたりのツール使用の最大回数（デフォルト: 10） */
+  maxIterations?: number;
+
+  /** 実行ごとの開始・完了の表示（デフォルト: true） */
+  verbose?: boolean;
+
+  /** ログの出力先（'agent'・'tool'・'sandbox' の子ロガーを作成、デフォルト: 共通のロガー） */
+  logger?: Logger;
+}
+
 /**
  * サンドボックス化されたClaude Agent
  *
@@ -238,18 +306,26 @@ class SandboxedFileSystem {
 class SandboxedClaudeAgent {
   private client: Anthropic;
   private fileSystem: SandboxedFileSystem;
-  private tools: Anthropic.Tool[];
-
-  constructor(apiKey: string, workDir: string) {
-    this.client = new Anthropic({ apiKey });
-    this.fileSystem = new SandboxedFileSystem(workDir);
-
-    // ファイル操作ツールを定義
+  private tools: DefinedTool[];
+  private runner: AgentRunner;
+  private sessionStore: SessionStore;
+  private verbose: boolean;
+  private logger: Logger;
+  private toolLogger: Logger;
+
+  constructor(apiKey: string, workDir: string, options: SandboxedAgentOptions = {}) {
+    const logger = options.logger ?? getDefaultLogger();
+    this.logger = logger.child('agent');
+    this.toolLogger = logger.child('tool');
+    this.client = options.client ?? createResilientClient({ apiKey });
+    this.fileSystem = new SandboxedFileSystem(workDir, options.allowedExtensions, logger.child('sandbox'));
+
+    // ファイル操作ツールを定義（読み取り専用ツールは並行実行、書き込み・削除は要求順に逐次実行される）
     this.tools = [
-      {
+      defineTool({
         name: 'read_file',
         description: '指定されたファイルの内容を読み込みます。作業ディレクトリ内のファイルのみアクセス可能です。',
-        input_schema: {
+        schema: {
           type: 'object',
           properties: {
             path: {
@@ -259,11 +335,13 @@ class SandboxedClaudeAgent {
           },
           required: ['path'],
         },
-      },
-      {
+        handler: (input) => this.executeTool('read_file', input, () => this.fileSystem.readFile(input.path)),
+        readOnly: true,
+      }),
+      defineTool({
         name: 'write_file',
         description: 'ファイルに内容を書き込みます。作業ディレクトリ内のファイルのみ作成可能です。',
-        input_schema: {
+        schema: {
           type: 'object',
           properties: {
             path: {
@@ -277,11 +355,13 @@ class SandboxedClaudeAgent {
           },
           required: ['path', 'content'],
         },
-      },
-      {
+        handler: (input) =>
+          this.executeTool('write_file', input, () => this.fileSystem.writeFile(input.path, input.content)),
+      }),
+      defineTool({
         name: 'list_files',
         description: 'ディレクトリ内のファイルとフォルダの一覧を取得します。',
-        input_schema: {
+        schema: {
           type: 'object',
           properties: {
             path: {
@@ -291,11 +371,14 @@ class SandboxedClaudeAgent {
             },
           },
         },
-      },
-      {
+        handler: (input) =>
+          this.executeTool('list_files', input, () => this.fileSystem.listFiles(input.path || '.')),
+        readOnly: true,
+      }),
+      defineTool({
         name: 'delete_file',
         description: 'ファイルを削除します。作業ディレクトリ内のファイルのみ削除可能です。',
-        input_schema: {
+        schema: {
           type: 'object',
           properties: {
             path: {
@@ -305,124 +388,206 @@ class SandboxedClaudeAgent {
           },
           required: ['path'],
         },
-      },
+        handler: (input) => this.executeTool('delete_file', input, () => this.fileSystem.deleteFile(input.path)),
+      }),
     ];
+    this.tools.push(...(options.tools ?? []));
+    if (options.toolNames) {
+      this.tools = selectTools(this.tools, options.toolNames);
+    }
+    const registry = new ToolRegistry().add(...this.tools);
+    this.sessionStore = SessionStore.forWorkDir(this.fileSystem.getWorkDir());
+    this.verbose = options.verbose ?? true;
+
+    // コンテキストウィンドウはモデルの上限に合わせる（options.contextで明示した場合はそちらを優先）
+    const models = options.models ?? defaultModelRegistry;
+    const model = options.model ?? DEFAULT_AGENT_CONFIG.model;
+    const contextWindow = models.get(model)?.contextWindow;
+
+    this.runner = new AgentRunner({
+      client: this.client,
+      tools: registry,
+      systemPrompt: options.systemPrompt,
+      query: {
+        model,
+        maxTokens: options.maxTokens ?? 4096 + (options.thinking?.budgetTokens ?? 0),
+        cache: { auto: true },
+        ...thinkingQuery(options.thinking),
+      },
+      models,
+      maxIterations: options.maxIterations ?? 10,
+      timeoutMs: options.timeoutMs,
+      toolTimeoutMs: options.toolTimeoutMs,
+      hooks: options.hooks ?? new HookManager({ logger: logger.child('hooks') }),
+      retry: options.retry,
+      sessionStore: this.sessionStore,
+      contextManager: new ContextManager(this.client, {
+        ...(contextWindow !== undefined ? { maxContextTokens: contextWindow } : {}),
+        retry: options.retry,
+        ...options.context,
+      }),
+      usageTracker: options.usageTracker,
+      budget: options.budget,
+      onResponse: (response, iteration) => {
+        if (options.showThinking) {
+          for (const thinking of extractThinking(response.content)) {
+            this.logger.info('💭 思考', { thinking });
+          }
+        }
+        if (response.stop_reason === 'tool_use') {
+          this.logger.info('--- イテレーション ---', { iteration: iteration + 1 });
+        }
+      },
+      onModelFallback: (from, to) => {
+        this.logger.warn('⚠️  過負荷のためモデルを切り替えます', { from, to });
+      },
+    });
   }
 
   /**
-   * ツールを実行
+   * ツールを実行（入力はスキーマで検証済み）
    */
-  private executeTool(toolName: string, input: any): any {
-    console.log(`\n🔧 ツール実行: ${toolName}`);
-    console.log(`📝 入力:`, JSON.stringify(input, null, 2));
-
-    let result: any;
-
-    switch (toolName) {
-      case 'read_file':
-        result = this.fileSystem.readFile(input.path);
-        break;
-      case 'write_file':
-        result = this.fileSystem.writeFile(input.path, input.content);
-        break;
-      case 'list_files':
-        result = this.fileSystem.listFiles(input.path || '.');
-        break;
-      case 'delete_file':
-        result = this.fileSystem.deleteFile(input.path);
-        break;
-      default:
-        result = { success: false, error: `未知のツール: ${toolName}` };
+  private executeTool<T>(toolName: string, input: unknown, run: () => T): T {
+    this.toolLogger.info('🔧 ツール実行', { tool: toolName, input });
+
+    let result: T;
+    try {
+      result = run();
+    } catch (error) {
+      // SandboxError はそのまま投げ直し、is_error の tool_result としてモデルに返す
+      if (error instanceof SandboxError) {
+        const icon = error.code === 'PATH_OUTSIDE_SANDBOX' || error.code === 'EXTENSION_NOT_ALLOWED' ? '⛔' : '❌';
+        this.toolLogger.warn(`${icon} ${error.message}`, { tool: toolName, code: error.code, path: error.path });
+      }
+      throw error;
     }
 
-    console.log(`✅ 結果:`, JSON.stringify(result, null, 2));
+    this.toolLogger.info('✅ 結果', { tool: toolName, result });
     return result;
   }
 
   /**
-   * エージェントを実行
+   * 登録されているツール定義の一覧を取得
    */
-  async run(userMessage: string): Promise<string> {
-    console.log('\n' + '='.repeat(70));
-    console.log('🤖 Claude Agent 起動');
-    console.log('📁 作業ディレクトリ:', this.fileSystem.getWorkDir());
-    console.log('💬 ユーザーメッセージ:', userMessage);
-    console.log('='.repeat(70) + '\n');
-
-    const messages: Anthropic.MessageParam[] = [
-      {
-        role: 'user',
-        content: userMessage,
-      },
-    ];
-
-    let response = await this.client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4096,
-      tools: this.tools,
-      messages,
-    });
-
-    // ツール使用ループ
-    let iterationCount = 0;
-    const maxIterations = 10;
+  getTools(): Anthropic.Tool[] {
+    return this.runner.getToolDefinitions();
+  }
 
-    while (response.stop_reason === 'tool_use' && iterationCount < maxIterations) {
-      iterationCount++;
-      console.log(`\n--- イテレーション ${iterationCount} ---`);
+  /**
+   * 使用するモデル（モデルIDまたはエイリアス）を取得
+   */
+  getModel(): string {
+    return this.runner.getModel();
+  }
 
-      const toolUse = response.content.find(
-        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
-      );
+  /**
+   * 使用するモデルを変更（次の実行から適用）
+   */
+  setModel(model: string): void {
+    this.runner.setModel(model);
+  }
 
-      if (!toolUse) break;
+  /**
+   * 作業ディレクトリのパスを取得
+   */
+  getWorkDir(): string {
+    return this.fileSystem.getWorkDir();
+  }
 
-      // ツールを実行
-      const toolResult = this.executeTool(toolUse.name, toolUse.input);
+  /**
+   * 会話セッションの保存先を取得
+   */
+  getSessionStore(): SessionStore {
+    return this.sessionStore;
+  }
 
-      // アシスタントの応答を履歴に追加
-      messages.push({
-        role: 'assistant',
-        content: response.content,
-      });
+  /**
+   * エージェントを実行
+   *
+   * options.sessionId を指定すると、作業ディレクトリの .sessions に保存された
+   * 会話の続きとして実行し、各ターンを記録します。
+   * 途中で打ち切られた実行かどうかは、結果の stopReason で判別できます。
+   */
+  async run(userMessage: string, options: AgentRunOptions = {}): Promise<AgentRunResult> {
+    return await this.runWith(userMessage, options, (input) => this.runner.run(input, options));
+  }
 
-      // ツール結果を追加
-      messages.push({
-        role: 'user',
-        content: [
-          {
-            type: 'tool_result',
-            tool_use_id: toolUse.id,
-            content: JSON.stringify(toolResult),
-          },
-        ],
-      });
+  /**
+   * エージェントをストリーミングで実行
+   *
+   * テキストやツール入力の差分を受信するたびにonEventが呼ばれます。
+   */
+  async runStreaming(
+    userMessage: string,
+    onEvent: AgentStreamHandler,
+    options: AgentRunOptions = {}
+  ): Promise<AgentRunResult> {
+    return await this.runWith(userMessage, options, (input) =>
+      this.runner.stream(input, onEvent, options)
+    );
+  }
 
-      // 次の応答を取得
-      response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4096,
-        tools: this.tools,
-        messages,
-      });
+  /**
+   * 実行前後のログ出力を共通化
+   */
+  private async runWith(
+    userMessage: string,
+    options: AgentRunOptions,
+    execute: (input: string) => Promise<AgentRunResult>
+  ): Promise<AgentRunResult> {
+    if (!this.verbose) {
+      return await execute(userMessage);
     }
 
-    // 最終的なテキスト応答を取得
-    const finalText = response.content.find(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    );
+    this.logger.info('🤖 Claude Agent 起動', {
+      workDir: this.fileSystem.getWorkDir(),
+      sessionId: options.sessionId,
+      userMessage,
+    });
 
-    const result = finalText?.text || '応答がありません';
+    const result = await execute(userMessage);
 
-    console.log('\n' + '='.repeat(70));
-    console.log('✨ エージェント完了');
-    console.log('📊 イテレーション数:', iterationCount);
-    console.log('='.repeat(70) + '\n');
+    this.logger.info('✨ エージェント完了', {
+      iterations: result.iterations,
+      stopReason: result.stopReason,
+      usage: formatUsage(result.usage),
+    });
+    if (result.stopReason === 'budget_exceeded') {
+      this.logger.warn('⛔ 上限に達したため停止しました', { detail: result.stopDetail });
+    }
+    if (result.stopReason === 'aborted') {
+      this.logger.warn('⏹️  中断しました', { detail: result.stopDetail });
+    }
+    if (result.stopReason === 'max_iterations') {
+      this.logger.warn('⚠️  作業の途中で打ち切りました', { detail: result.stopDetail });
+    }
+    if (result.stopReason === 'max_tokens') {
+      this.logger.warn('⚠️  応答が最大トークン数で途切れました', {
+        detail: result.stopDetail ?? '続きの要求回数の上限に達しました',
+      });
+    }
 
     return result;
   }
 }
 
+/**
+ * 名前で指定したツールだけを取り出す（指定順）
+ */
+function selectTools(tools: DefinedTool[], names: string[]): DefinedTool[] {
+  return names.map(name => {
+    const tool = tools.find(t => t.definition.name === name);
+    if (!tool) {
+      throw new ToolError(
+        'UNKNOWN_TOOL',
+        `ツール "${name}" は登録されていません（使用可能: ${tools.map(t => t.definition.name).join(', ')}）`,
+        name
+      );
+    }
+    return tool;
+  });
+}
+
 /**
  * デモ実行
  */
@@ -431,54 +596,70 @@ async function demo() {
   console.log('║  Claude SDK - サンドボックス化されたエージェントのデモ       ║');
   console.log('╚════════════════════════════════════════════════════════════════╝\n');
 
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!hasApiAccess()) {
     console.error('❌ エラー: ANTHROPIC_API_KEYが設定されていません');
     console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+    console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
     return;
   }
 
-  // 作業ディレクトリを環境変数から取得（デフォルトは /tmp/claude-workspace）
-  const workDir = process.env.CLAUDE_WORK_DIR || '/tmp/claude-workspace';
+  // 作業ディレクトリなどを設定から取得（環境変数 CLAUDE_WORK_DIR なども反映、デフォルトは /tmp/claude-workspace）
+  const { config } = loadAgentConfig();
 
   // エージェントを初期化
-  const agent = new SandboxedClaudeAgent(process.env.ANTHROPIC_API_KEY, workDir);
+  const agent = new SandboxedClaudeAgent(process.env.ANTHROPIC_API_KEY ?? '', config.sandbox.workDir, {
+    model: config.model,
+    models: createModelRegistry(config),
+    hooks: createConfigHooks(config),
+    allowedExtensions: config.sandbox.allowedExtensions,
+  });
+
+  // Ctrl+C で実行中のデモを中断する（中断後のデモはすぐに終了する）
+  const interrupt = interruptOnSigint();
+  const runOptions = { signal: interrupt.signal };
 
   try {
     // 例1: ファイルを作成して読み込む
     console.log('\n📌 例1: ファイルの作成と読み込み\n');
     const result1 = await agent.run(
-      'hello.txt というファイルを作成して、「こんにちは、Claude Agent!」と書き込んでください。その後、ファイルの内容を読み込んで確認してください。'
+      'hello.txt というファイルを作成して、「こんにちは、Claude Agent!」と書き込んでください。その後、ファイルの内容を読み込んで確認してください。',
+      runOptions
     );
-    console.log('🤖 エージェントの応答:', result1);
+    console.log('🤖 エージェントの応答:', result1.text || '応答がありません');
     console.log('\n' + '-'.repeat(70) + '\n');
 
     // 例2: JSON データを作成
     console.log('\n📌 例2: JSONデータの作成\n');
     const result2 = await agent.run(
-      'users.json というファイルを作成して、3人のユーザー情報（name, email, age）を含むJSON配列を書き込んでください。'
+      'users.json というファイルを作成して、3人のユーザー情報（name, email, age）を含むJSON配列を書き込んでください。',
+      runOptions
     );
-    console.log('🤖 エージェントの応答:', result2);
+    console.log('🤖 エージェントの応答:', result2.text || '応答がありません');
     console.log('\n' + '-'.repeat(70) + '\n');
 
     // 例3: ファイル一覧を取得
     console.log('\n📌 例3: ファイル一覧の取得\n');
     const result3 = await agent.run(
-      '作業ディレクトリ内のすべてのファイルをリストアップしてください。'
+      '作業ディレクトリ内のすべてのファイルをリストアップしてください。',
+      runOptions
     );
-    console.log('🤖 エージェントの応答:', result3);
+    console.log('🤖 エージェントの応答:', result3.text || '応答がありません');
     console.log('\n' + '-'.repeat(70) + '\n');
 
     // 例4: セキュリティテスト（パストラバーサル攻撃の防止）
     console.log('\n📌 例4: セキュリティテスト（作業ディレクトリ外へのアクセス試行）\n');
     const result4 = await agent.run(
-      '../../../etc/passwd というファイルを読み込んでください。'
+      '../../../etc/passwd というファイルを読み込んでください。',
+      runOptions
     );
-    console.log('🤖 エージェントの応答:', result4);
+    console.log('🤖 エージェントの応答:', result4.text || '応答がありません');
 
     console.log('\n✨ すべてのデモが完了しました！');
-    console.log(`📁 作業ディレクトリを確認: ${workDir}`);
+    console.log(`📁 作業ディレクトリを確認: ${config.sandbox.workDir}`);
   } catch (error) {
     console.error('❌ エラーが発生しました:', error);
+  } finally {
+    interrupt.dispose();
   }
 }
 
@@ -487,4 +668,4 @@ if (require.main === module) {
   demo().catch(console.error);
 }
 
-export { SandboxedFileSystem, SandboxedClaudeAgent };
+export { SandboxedFileSystem, SandboxedClaudeAgent, SandboxedAgentOptions };
@@ -0,0 +1,184 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * 保存されるセッションデータ
+ */
+export interface SessionData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: Anthropic.MessageParam[];
+}
+
+/** セッションIDとして許可する文字（ファイル名に使うため） */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * SessionStore
+ *
+ * 会話履歴をセッションIDごとのJSONファイルに保存・復元する。
+ * ファイルは `<baseDir>/<sessionId>.json` に、
+ * 同じセッションのTodoは `<baseDir>/<sessionId>.todos.json` に保存されます。
+ *
+ * @example
+ * ```typescript
+ * const store = SessionStore.forWorkDir('/tmp/claude-workspace');
+ * const session = store.open('my-session');
+ * session.messages.push({ role: 'user', content: 'こんにちは' });
+ * store.save(session);
+ * ```
+ */
+export class SessionStore {
+  private baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  /**
+   * 作業ディレクトリ直下の .sessions を保存先とするストアを作成
+   */
+  static forWorkDir(workDir: string): SessionStore {
+    return new SessionStore(path.join(workDir, '.sessions'));
+  }
+
+  /**
+   * 新しいセッションIDを生成
+   */
+  static generateId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * セッションを読み込む（存在しない場合は null）
+   */
+  load(id: string): SessionData | null {
+    const file = this.getSessionFilePath(id);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as SessionData;
+  }
+
+  /**
+   * セッションを読み込む。存在しない場合は空のセッションを作成する
+   */
+  open(id: string): SessionData {
+    const existing = this.load(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    return { id, createdAt: now, updatedAt: now, messages: [] };
+  }
+
+  /**
+   * セッションを保存
+   *
+   * 一時ファイルに書き込んでからリネームするため、
+   * 書き込み中に中断されても既存のファイルは壊れません。
+   */
+  save(session: SessionData): void {
+    const file = this.getSessionFilePath(session.id);
+    fs.mkdirSync(this.baseDir, { recursive: true });
+
+    const data: SessionData = { ...session, updatedAt: new Date().toISOString() };
+    const tmpFile = `${file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2), 'utf8');
+    fs.renameSync(tmpFile, file);
+  }
+
+  /**
+   * 保存されているセッションIDの一覧を取得
+   */
+  list(): string[] {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.baseDir)
+      .filter(name => name.endsWith('.json') && !name.endsWith('.todos.json'))
+      .map(name => name.slice(0, -'.json'.length));
+  }
+
+  /**
+   * セッションと関連するTodoファイルを削除
+   */
+  delete(id: string): void {
+    for (const file of [this.getSessionFilePath(id), this.getTodoFilePath(id)]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+
+  /**
+   * セッションファイルのパスを取得
+   */
+  getSessionFilePath(id: string): string {
+    return path.join(this.baseDir, `${validateSessionId(id)}.json`);
+  }
+
+  /**
+   * セッションに紐づくTodoファイルのパスを取得
+   */
+  getTodoFilePath(id: string): string {
+    return path.join(this.baseDir, `${validateSessionId(id)}.todos.json`);
+  }
+}
+
+/**
+ * 再開用に会話履歴を整える
+ *
+ * tool_useを含むアシスタント応答で履歴が終わっている場合、
+ * ツール実行前に中断されたと判断してその応答を取り除く
+ * （tool_resultのないtool_useはAPIエラーになるため）。
+ */
+export function prepareHistoryForResume(
+  messages: Anthropic.MessageParam[]
+): Anthropic.MessageParam[] {
+  const history = [...messages];
+  const last = history[history.length - 1];
+
+  if (
+    last?.role === 'assistant' &&
+    Array.isArray(last.content) &&
+    last.content.some(block => block.type === 'tool_use')
+  ) {
+    history.pop();
+  }
+
+  return history;
+}
+
+/**
+ * 会話履歴から最後のターン（最後のユーザー入力とそれ以降の応答・ツール実行）を取り除く
+ *
+ * tool_resultだけのuserメッセージはユーザー入力とみなさない。
+ * ユーザー入力がなければ履歴をそのまま返す。
+ */
+export function removeLastTurn(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  let index = messages.length - 1;
+  while (index >= 0 && !isUserInput(messages[index])) {
+    index--;
+  }
+  return index >= 0 ? messages.slice(0, index) : messages;
+}
+
+function isUserInput(message: Anthropic.MessageParam): boolean {
+  if (message.role !== 'user') {
+    return false;
+  }
+  return typeof message.content === 'string' || message.content.some(block => block.type !== 'tool_result');
+}
+
+function validateSessionId(id: string): string {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new Error(`無効なセッションIDです: ${id}（英数字・ハイフン・アンダースコアのみ使用できます）`);
+  }
+  return id;
+}
@@ -0,0 +1,198 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AgentRunner, AgentRunnerConfig, ToolRegistry } from './agent-runner';
+import { AbortError } from './cancellation';
+import { AgentError } from './agent-errors';
+import { defineTool } from './define-tool';
+import { InferSchema, JsonSchema, SchemaIssue, formatSchemaIssues, validateSchema } from './json-schema';
+import { UsageTotals, sumUsage } from './usage-tracker';
+import type { Span } from './tracing';
+
+/**
+ * generateStructured の設定
+ *
+ * client・tools・maxIterations 以外の AgentRunner の設定（model、hooks、retry、usageTracker など）も指定できます。
+ */
+export interface StructuredOutputOptions<S extends JsonSchema>
+  extends Omit<AgentRunnerConfig, 'client' | 'tools' | 'maxIterations'> {
+  /** 出力のスキーマ（type: 'object' のみ） */
+  schema: S;
+
+  /** 回答用ツールの名前（デフォルト: 'submit_result'） */
+  name?: string;
+
+  /** 回答用ツールの説明 */
+  description?: string;
+
+  /** スキーマに一致しない場合を含めた最大試行回数（デフォルト: 3） */
+  maxAttempts?: number;
+
+  /** 中断用シグナル */
+  signal?: AbortSignal;
+
+  /** 親スパン（各試行の 'agent.run' スパンをこの下に記録する） */
+  parentSpan?: Span;
+}
+
+/**
+ * 構造化出力の結果
+ */
+export interface StructuredOutputResult<T> {
+  /** スキーマで検証済みの出力 */
+  data: T;
+
+  /** 試行回数（1なら最初の応答で成功） */
+  attempts: number;
+
+  /** すべての試行の使用量の合計 */
+  usage: UsageTotals;
+
+  /** 再要求を含む会話履歴 */
+  messages: Anthropic.MessageParam[];
+}
+
+/**
+ * 構造化出力を得られなかった時のエラー
+ */
+export class StructuredOutputError extends AgentError {
+  /** 最後の試行での検証エラー */
+  readonly issues: SchemaIssue[];
+  /** 最後の試行でモデルが出力した値 */
+  readonly output: unknown;
+
+  constructor(message: string, issues: SchemaIssue[], output: unknown) {
+    super('STRUCTURED_OUTPUT_FAILED', message);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.output = output;
+  }
+}
+
+const DEFAULT_TOOL_NAME = 'submit_result';
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * JSON Schemaに沿った出力をモデルから取得する
+ *
+ * 回答用のツールを1つだけ用意して呼び出しを強制し（tool_choice）、その入力を出力として扱う。
+ * 入力はスキーマで検証し、一致しなければ検証エラーを is_error の tool_result として返して再度回答させる。
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   type: 'object',
+ *   properties: { title: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+ *   required: ['title', 'tags'],
+ * } as const;
+ *
+ * const { data } = await generateStructured(client, '次の記事のタイトルとタグを抽出して: ...', { schema });
+ * console.log(data.title, data.tags); // 型は { title: string; tags: string[] }
+ * ```
+ */
+export async function generateStructured<const S extends JsonSchema>(
+  client: Anthropic,
+  input: string | Anthropic.MessageParam[],
+  options: StructuredOutputOptions<S>
+): Promise<StructuredOutputResult<InferSchema<S>>> {
+  const {
+    schema,
+    name = DEFAULT_TOOL_NAME,
+    description = '回答を指定された形式で提出します。回答は必ずこのツールで提出してください。',
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    signal,
+    parentSpan,
+    ...config
+  } = options;
+
+  // 回答用ツールは呼び出させるだけで実行はしない（maxIterations: 0 で最初の応答を受け取った時点で止まる）
+  // ツールを強制する tool_choice は拡張思考と併用できないため、thinking は外す
+  const tool = defineTool({ name, description, schema, handler: () => undefined });
+  const runner = new AgentRunner({
+    ...config,
+    client,
+    tools: new ToolRegistry().add(tool),
+    query: {
+      ...config.query,
+      toolChoice: { type: 'tool', name, disable_parallel_tool_use: true },
+      thinking: undefined,
+      interleavedThinking: false,
+    },
+    maxIterations: 0,
+  });
+
+  let messages: Anthropic.MessageParam[] =
+    typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+  const usage: UsageTotals[] = [];
+  let issues: SchemaIssue[] = [];
+  let output: unknown;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await runner.run(messages, { signal, parentSpan });
+    usage.push(result.usage);
+
+    if (result.stopReason === 'aborted') {
+      throw new AbortError(result.stopDetail);
+    }
+    if (result.stopReason === 'max_tokens') {
+      throw new StructuredOutputError(
+        `構造化出力が最大トークン数で途切れました（maxTokensを増やしてください）`,
+        [],
+        undefined
+      );
+    }
+
+    const toolUse = result.response?.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === name
+    );
+
+    if (!toolUse) {
+      issues = [{ path: '$', message: `${name} ツールが呼び出されませんでした` }];
+      output = result.text;
+      messages = [
+        ...result.messages,
+        { role: 'user', content: `回答は必ず ${name} ツールを呼び出して提出してください。` },
+      ];
+      continue;
+    }
+
+    output = toolUse.input;
+    issues = validateSchema(toolUse.input, schema);
+    if (issues.length === 0) {
+      return {
+        data: toolUse.input as InferSchema<S>,
+        attempts: attempt,
+        usage: sumUsage(usage),
+        messages: result.messages,
+      };
+    }
+
+    if (result.stopReason === 'budget_exceeded') {
+      throw new StructuredOutputError(
+        `上限に達したため再試行できません（${result.stopDetail}）:\n${formatSchemaIssues(issues)}`,
+        issues,
+        output
+      );
+    }
+
+    // 検証エラーを伝えて再度回答させる
+    messages = [
+      ...result.messages,
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `入力がスキーマに一致しません。以下を修正して、もう一度 ${name} を呼び出してください。\n${formatSchemaIssues(issues)}`,
+          },
+        ],
+      },
+    ];
+  }
+
+  throw new StructuredOutputError(
+    `${maxAttempts}回試行しましたが、スキーマに一致する出力を得られませんでした:\n${formatSchemaIssues(issues)}`,
+    issues,
+    output
+  );
+}
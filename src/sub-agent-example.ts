@@ -1,5 +1,24 @@
 import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
+import { AgentRunner, AgentRunResult, AgentStopReason } from './agent-runner';
+import { HookManager } from './hook-manager';
+import { RetryOptions, createResilientClient } from './resilient-client';
+import { ModelRegistry } from './model-registry';
+import { DEFAULT_AGENT_CONFIG, ThinkingOptions, extractThinking, thinkingQuery } from './agent-query-types';
+import { createAbortScope, interruptOnSigint, toAbortError } from './cancellation';
+import { hasApiAccess } from './cassette';
+import { StructuredOutputError, generateStructured } from './structured-output';
+import { AgentError, AgentErrorCode, PlanParseError, toAgentError } from './agent-errors';
+import { Logger, getDefaultLogger } from './logger';
+import { Span, Tracer, getDefaultTracer, usageAttributes } from './tracing';
+import {
+  PriceTable,
+  UsageBudget,
+  UsageTotals,
+  UsageTracker,
+  formatUsage,
+  sumUsage,
+} from './usage-tracker';
 
 dotenv.config();
 
@@ -9,7 +28,93 @@ dotenv.config();
 interface SubAgentConfig {
   name: string;
   systemPrompt: string;
+  /** モデルIDまたはエイリアス（デフォルト: 'default'） */
   model?: string;
+  models?: ModelRegistry;
+  hooks?: HookManager;
+  retry?: RetryOptions;
+  /** 1回のタスク実行の制限時間（ミリ秒） */
+  timeoutMs?: number;
+  /** 1回の応答の最大トークン数（デフォルト: 4096、拡張思考を有効にした場合はその予算を加えた値） */
+  maxTokens?: number;
+  /** 拡張思考の設定 */
+  thinking?: ThinkingOptions;
+  /** 思考の内容をログに表示するか（デフォルト: false） */
+  showThinking?: boolean;
+  /** ログの出力先（デフォルト: 共通のロガーの 'agent'） */
+  logger?: Logger;
+  /** スパンの記録先（デフォルト: 共通のTracer） */
+  tracer?: Tracer;
+}
+
+/**
+ * サブエージェント実行時のオプション
+ */
+interface SubAgentRunOptions {
+  /** 使用量の記録先（オーケストレーター全体で共有する場合に指定） */
+  usageTracker?: UsageTracker;
+
+  /** 中断用シグナル */
+  signal?: AbortSignal;
+
+  /** 親スパン（オーケストレーターの委譲のスパンなど） */
+  parentSpan?: Span;
+}
+
+/**
+ * オーケストレーターのオプション
+ */
+interface SubAgentOrchestratorOptions {
+  /** 使用するクライアント（省略時はapiKeyから作成） */
+  client?: Anthropic;
+
+  /** オーケストレーターと全サブエージェントで共有するHook */
+  hooks?: HookManager;
+
+  /** リクエスト失敗時のリトライ設定 */
+  retry?: RetryOptions;
+
+  /** 1回のオーケストレーション全体（計画・サブエージェント・統合）の使用量の上限 */
+  budget?: UsageBudget;
+
+  /** 料金計算に使う料金表 */
+  prices?: PriceTable;
+
+  /** 計画と統合に使うモデル（モデルIDまたはエイリアス、デフォルト: 'default'） */
+  model?: string;
+
+  /** オーケストレーターと全サブエージェントで共有するモデルレジストリ */
+  models?: ModelRegistry;
+
+  /** サブエージェント1回あたりの制限時間（ミリ秒、SubAgentConfig.timeoutMs で個別に上書き可能） */
+  subAgentTimeoutMs?: number;
+
+  /**
+   * サブエージェントと統合の拡張思考の設定（SubAgentConfig.thinking で個別に上書き可能）
+   *
+   * 計画は tool_choice で出力形式を強制するため、思考なしで実行されます。
+   */
+  thinking?: ThinkingOptions;
+
+  /** 思考の内容をログに表示するか（デフォルト: false） */
+  showThinking?: boolean;
+
+  /** ログの出力先（'orchestrator' とサブエージェント名の子ロガーを作成、デフォルト: 共通のロガー） */
+  logger?: Logger;
+
+  /** オーケストレーターと全サブエージェントのスパンの記録先（デフォルト: 共通のTracer） */
+  tracer?: Tracer;
+}
+
+/**
+ * orchestrate() のオプション
+ */
+interface OrchestrateOptions {
+  /** 中断用シグナル */
+  signal?: AbortSignal;
+
+  /** オーケストレーション全体（計画・サブエージェント・統合）の制限時間（ミリ秒） */
+  timeoutMs?: number;
 }
 
 /**
@@ -27,6 +132,55 @@ interface SubAgentResult {
   agentName: string;
   result: string;
   error?: string;
+  /** エラーで終了した場合のエラーコード */
+  errorCode?: AgentErrorCode;
+  /** サブエージェントの実行結果（エラーで終了した場合はなし） */
+  run?: AgentRunResult;
+}
+
+/**
+ * オーケストレーターが立てた実行計画
+ */
+interface OrchestrationPlan {
+  plan: string;
+  tasks: SubAgentTask[];
+  parallel: boolean;
+}
+
+/**
+ * orchestrate() の結果
+ */
+interface OrchestrationResult {
+  /** 統合された最終回答 */
+  text: string;
+
+  /** 統合ステップの停止理由（統合の前に上限に達した場合は 'budget_exceeded'、中断された場合は 'aborted'） */
+  stopReason: AgentStopReason | null;
+
+  /** 統合の前に停止した場合の詳細 */
+  stopDetail?: string;
+
+  /** 実行計画 */
+  plan: OrchestrationPlan;
+
+  /** 各サブエージェントの結果（途中で停止した場合はそれまでの結果） */
+  results: SubAgentResult[];
+
+  /** 統合ステップの実行結果（統合の前に停止した場合はなし） */
+  synthesis?: AgentRunResult;
+
+  /** 料金内訳 */
+  cost: OrchestrationCostReport;
+}
+
+/**
+ * オーケストレーションの料金内訳
+ */
+interface OrchestrationCostReport {
+  plan: UsageTotals;
+  subAgents: Array<{ agentName: string; usage: UsageTotals }>;
+  synthesis: UsageTotals;
+  total: UsageTotals;
 }
 
 /**
@@ -38,46 +192,77 @@ interface SubAgentResult {
 class SubAgent {
   private client: Anthropic;
   private config: SubAgentConfig;
+  private logger: Logger;
+  private tracer: Tracer;
 
   constructor(client: Anthropic, config: SubAgentConfig) {
     this.client = client;
     this.config = {
-      model: 'claude-3-5-sonnet-20241022',
+      model: DEFAULT_AGENT_CONFIG.model,
       ...config,
     };
+    this.logger = config.logger ?? getDefaultLogger().child('agent', { subAgent: config.name });
+    this.tracer = config.tracer ?? getDefaultTracer();
   }
 
   /**
-   * タスクを実行
+   * タスクを実行し、使用量を含む実行結果を返す
+   *
+   * 制限時間（timeoutMs）を超えた場合はエラーを投げます。
+   * options.signal で中断された場合は、それまでの会話を含む stopReason: 'aborted' の結果を返します。
+   * 実行は 'sub_agent.run' スパンとして options.parentSpan の下に記録されます。
    */
-  async execute(userPrompt: string): Promise<string> {
-    console.log(`\n🤖 [${this.config.name}] タスク実行開始`);
-    console.log(`📝 プロンプト: ${userPrompt.substring(0, 100)}...`);
+  async run(userPrompt: string, options: SubAgentRunOptions = {}): Promise<AgentRunResult> {
+    return await this.tracer.withSpan(
+      'sub_agent.run',
+      { parent: options.parentSpan, attributes: { 'agent.sub_agent.name': this.config.name } },
+      span => this.execute(userPrompt, options, span)
+    );
+  }
+
+  private async execute(userPrompt: string, options: SubAgentRunOptions, span: Span): Promise<AgentRunResult> {
+    this.logger.info('🤖 タスク実行開始', { prompt: `${userPrompt.substring(0, 100)}...` });
 
     try {
-      const response = await this.client.messages.create({
-        model: this.config.model!,
-        max_tokens: 4096,
-        system: this.config.systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
+      const runner = new AgentRunner({
+        client: this.client,
+        systemPrompt: this.config.systemPrompt,
+        query: {
+          model: this.config.model!,
+          maxTokens: this.config.maxTokens ?? 4096 + (this.config.thinking?.budgetTokens ?? 0),
+          ...thinkingQuery(this.config.thinking),
+        },
+        models: this.config.models,
+        hooks: this.config.hooks,
+        retry: this.config.retry,
+        usageTracker: options.usageTracker,
+        usageLabel: this.config.name,
+        tracer: this.tracer,
+        onResponse: response => {
+          if (this.config.showThinking) {
+            logThinking(this.logger, response);
+          }
+        },
       });
 
-      const textContent = response.content.find(
-        (block): block is Anthropic.TextBlock => block.type === 'text'
-      );
-
-      const result = textContent?.text || '';
-      console.log(`✅ [${this.config.name}] タスク完了 (${result.length}文字)`);
+      const result = await runner.run(userPrompt, {
+        signal: options.signal,
+        timeoutMs: this.config.timeoutMs,
+        parentSpan: span,
+      });
+      if (result.stopReason === 'aborted') {
+        if (!options.signal?.aborted) {
+          throw new AgentError('ABORTED', `タスクが中断されました: ${result.stopDetail}`);
+        }
+        this.logger.warn('⏹️  中断しました', { detail: result.stopDetail });
+        return result;
+      }
+      this.logger.info('✅ タスク完了', { chars: result.text.length });
 
       return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`❌ [${this.config.name}] エラー: ${errorMessage}`);
+      this.logger.error('❌ エラー', { error: errorMessage });
       throw error;
     }
   }
@@ -96,143 +281,201 @@ class SubAgent {
 class SubAgentOrchestrator {
   private client: Anthropic;
   private subAgents: Map<string, SubAgent>;
-
-  constructor(apiKey: string) {
-    this.client = new Anthropic({ apiKey });
+  private hooks?: HookManager;
+  private retry?: RetryOptions;
+  private budget?: UsageBudget;
+  private prices?: PriceTable;
+  private model?: string;
+  private models?: ModelRegistry;
+  private subAgentTimeoutMs?: number;
+  private thinking?: ThinkingOptions;
+  private showThinking: boolean;
+  private logger: Logger;
+  private tracer: Tracer;
+  private lastCostReport: OrchestrationCostReport | null = null;
+
+  constructor(apiKey: string, options: SubAgentOrchestratorOptions = {}) {
+    this.client = options.client ?? createResilientClient({ apiKey });
     this.subAgents = new Map();
+    this.hooks = options.hooks;
+    this.retry = options.retry;
+    this.budget = options.budget;
+    this.prices = options.prices;
+    this.model = options.model;
+    this.models = options.models;
+    this.subAgentTimeoutMs = options.subAgentTimeoutMs;
+    this.thinking = options.thinking;
+    this.showThinking = options.showThinking ?? false;
+    this.logger = (options.logger ?? getDefaultLogger()).child('orchestrator');
+    this.tracer = options.tracer ?? getDefaultTracer();
   }
 
   /**
    * サブエージェントを登録
    */
   registerSubAgent(config: SubAgentConfig): void {
-    const subAgent = new SubAgent(this.client, config);
+    const subAgent = new SubAgent(this.client, {
+      hooks: this.hooks,
+      retry: this.retry,
+      models: this.models,
+      timeoutMs: this.subAgentTimeoutMs,
+      thinking: this.thinking,
+      showThinking: this.showThinking,
+      logger: this.logger.child(config.name),
+      tracer: this.tracer,
+      ...config,
+    });
     this.subAgents.set(config.name, subAgent);
-    console.log(`✅ サブエージェント登録: ${config.name}`);
+    this.logger.info('✅ サブエージェント登録', { name: config.name });
   }
 
   /**
    * 単一のサブエージェントにタスクを委譲
    */
-  async delegateToSubAgent(agentName: string, prompt: string): Promise<string> {
-    const subAgent = this.subAgents.get(agentName);
-    if (!subAgent) {
-      throw new Error(`サブエージェント "${agentName}" が見つかりません`);
-    }
-
-    return await subAgent.execute(prompt);
+  async delegateToSubAgent(
+    agentName: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<AgentRunResult> {
+    return await this.getSubAgent(agentName).run(prompt, { signal });
   }
 
   /**
    * 複数のサブエージェントに並列でタスクを委譲
    */
-  async delegateParallel(tasks: SubAgentTask[]): Promise<SubAgentResult[]> {
-    console.log(`\n🚀 並列実行開始: ${tasks.length}個のタスク`);
-    console.log('='.repeat(70));
-
-    const promises = tasks.map(async (task) => {
-      try {
-        const result = await this.delegateToSubAgent(task.agentName, task.prompt);
-        return {
-          agentName: task.agentName,
-          result,
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          agentName: task.agentName,
-          result: '',
-          error: errorMessage,
-        };
-      }
-    });
+  async delegateParallel(
+    tasks: SubAgentTask[],
+    options: SubAgentRunOptions = {}
+  ): Promise<SubAgentResult[]> {
+    const usageTracker = options.usageTracker ?? this.createUsageTracker();
+    this.logger.info('🚀 並列実行開始', { tasks: tasks.length });
 
-    const results = await Promise.all(promises);
-    console.log('='.repeat(70));
-    console.log(`✨ 並列実行完了: ${results.length}個の結果`);
+    const results = await Promise.all(tasks.map(task => this.runTask(task, { ...options, usageTracker })));
+    this.logger.info('✨ 並列実行完了', { results: results.length });
 
     return results;
   }
 
   /**
    * オーケストレーターエージェント自身がタスクを分析して実行計画を立てる
+   *
+   * 全体を 'orchestrate' スパンとして記録し、計画・委譲・統合の各段階と
+   * サブエージェントの実行をその下に記録します。
    */
-  async orchestrate(userRequest: string): Promise<string> {
-    console.log('\n🎯 オーケストレーター起動');
-    console.log(`📋 ユーザーリクエスト: ${userRequest}`);
-    console.log('='.repeat(70));
+  async orchestrate(
+    userRequest: string,
+    options: OrchestrateOptions = {}
+  ): Promise<OrchestrationResult> {
+    const scope = createAbortScope(options);
+    try {
+      return await this.tracer.withSpan(
+        'orchestrate',
+        { attributes: { 'agent.sub_agents': this.listSubAgents() } },
+        async span => {
+          const result = await this.runOrchestration(userRequest, scope.signal, span);
+          span.setAttributes({
+            'agent.plan.tasks': result.plan.tasks.length,
+            'agent.plan.parallel': result.plan.parallel,
+            'agent.stop_reason': result.stopReason ?? undefined,
+            ...usageAttributes(result.cost.total),
+          });
+          return result;
+        }
+      );
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * orchestrate() の本体
+   *
+   * 委譲・統合の途中で中断された場合や共有の上限に達した場合は、それまでの結果を
+   * stopReason: 'aborted' / 'budget_exceeded' として返す（計画の途中で中断された場合は計画がないためエラーを投げる）。
+   */
+  private async runOrchestration(
+    userRequest: string,
+    signal: AbortSignal,
+    span: Span
+  ): Promise<OrchestrationResult> {
+    this.logger.info('🎯 オーケストレーター起動', { request: userRequest });
 
     // オーケストレーター用のシステムプロンプト
     const orchestratorPrompt = `あなたはタスクオーケストレーターです。
 ユーザーのリクエストを分析し、以下のサブエージェントのいずれか、または複数に委譲する実行計画を立ててください。
 
 利用可能なサブエージェント:
-${Array.from(this.subAgents.keys()).map(name => `- ${name}`).join('\n')}
-
-実行計画をJSON形式で出力してください：
-{
-  "plan": "実行計画の説明",
-  "tasks": [
-    {
-      "agentName": "エージェント名",
-      "prompt": "サブエージェントへの具体的な指示"
+${this.listSubAgents().map(name => `- ${name}`).join('\n')}
+
+実行計画は submit_plan ツールで提出してください。`;
+
+    // 計画・サブエージェント・統合で1つのトラッカーを共有し、上限を全体に適用する
+    const usageTracker = this.createUsageTracker();
+
+    // オーケストレーターがタスクを分析し、スキーマに沿った実行計画を提出する
+    const planSpan = this.tracer.startSpan('orchestrator.plan', { parent: span });
+    const { data: plan, usage: planUsage } = await generateStructured(this.client, userRequest, {
+      schema: createPlanSchema(this.listSubAgents()),
+      name: 'submit_plan',
+      description: 'サブエージェントへの委譲計画を提出します。',
+      systemPrompt: orchestratorPrompt,
+      query: { model: this.model, maxTokens: 2048 },
+      models: this.models,
+      hooks: this.hooks,
+      retry: this.retry,
+      usageTracker,
+      usageLabel: 'plan',
+      tracer: this.tracer,
+      signal,
+      parentSpan: planSpan,
+    })
+      .catch((error: unknown) => {
+        planSpan.recordException(error);
+        if (error instanceof StructuredOutputError) {
+          throw new PlanParseError(`実行計画を取得できませんでした: ${error.message}`, error);
+        }
+        throw error;
+      })
+      .finally(() => planSpan.end());
+    this.lastCostReport = buildCostReport(planUsage, [], null);
+    const planExceeded = usageTracker.checkBudget();
+    if (planExceeded) {
+      return this.stopBeforeSynthesis(plan, planUsage, [], 'budget_exceeded', planExceeded);
     }
-  ],
-  "parallel": true/false (並列実行が可能かどうか)
-}
 
-JSON以外の説明は不要です。JSONのみを返してください。`;
-
-    // オーケストレーターがタスクを分析
-    const planResponse = await this.client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 2048,
-      system: orchestratorPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userRequest,
-        },
-      ],
-    });
-
-    const planText = planResponse.content.find(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    )?.text || '';
-
-    console.log('\n📊 実行計画:', planText);
-
-    // JSONを抽出（コードブロックがある場合は除去）
-    let jsonText = planText.trim();
-    if (jsonText.includes('```json')) {
-      jsonText = jsonText.split('```json')[1].split('```')[0].trim();
-    } else if (jsonText.includes('```')) {
-      jsonText = jsonText.split('```')[1].split('```')[0].trim();
-    }
-
-    const plan = JSON.parse(jsonText);
-
-    console.log(`\n✅ 計画確定: ${plan.tasks.length}個のタスク`);
-    console.log(`⚡ 並列実行: ${plan.parallel ? 'はい' : 'いいえ'}`);
+    this.logger.info('📊 実行計画', { plan: plan.plan });
+    this.logger.info('✅ 計画確定', { tasks: plan.tasks.length, parallel: plan.parallel });
 
     // タスクを実行
-    let results: SubAgentResult[];
-    if (plan.parallel && plan.tasks.length > 1) {
-      results = await this.delegateParallel(plan.tasks);
-    } else {
-      // 順次実行
-      results = [];
-      for (const task of plan.tasks) {
-        const result = await this.delegateToSubAgent(task.agentName, task.prompt);
-        results.push({
-          agentName: task.agentName,
-          result,
-        });
+    const parallel = plan.parallel && plan.tasks.length > 1;
+    const results = await this.tracer.withSpan(
+      'orchestrator.delegate',
+      { parent: span, attributes: { 'agent.plan.tasks': plan.tasks.length, 'agent.plan.parallel': parallel } },
+      async delegateSpan => {
+        if (parallel) {
+          return await this.delegateParallel(plan.tasks, { usageTracker, signal, parentSpan: delegateSpan });
+        }
+
+        // 順次実行（中断された場合や上限に達した場合は残りのタスクには委譲しない）
+        const sequential: SubAgentResult[] = [];
+        for (const task of plan.tasks) {
+          if (signal.aborted || usageTracker.checkBudget()) break;
+          sequential.push(await this.runTask(task, { usageTracker, signal, parentSpan: delegateSpan }));
+        }
+        return sequential;
       }
+    );
+    this.lastCostReport = buildCostReport(planUsage, results, null);
+    if (signal.aborted) {
+      return this.stopBeforeSynthesis(plan, planUsage, results, 'aborted', toAbortError(signal).message);
+    }
+    const delegateExceeded = usageTracker.checkBudget();
+    if (delegateExceeded) {
+      return this.stopBeforeSynthesis(plan, planUsage, results, 'budget_exceeded', delegateExceeded);
     }
 
     // 結果を統合
-    console.log('\n🔄 結果を統合中...');
+    this.logger.info('🔄 結果を統合中...');
     const synthesisPrompt = `以下のサブエージェントの実行結果を統合して、ユーザーのリクエストに対する最終的な回答を作成してください。
 
 元のリクエスト: ${userRequest}
@@ -246,25 +489,124 @@ ${r.error ? `エラー: ${r.error}` : ''}
 
 統合された回答を作成してください。`;
 
-    const finalResponse = await this.client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: synthesisPrompt,
-        },
-      ],
+    const synthesisRunner = new AgentRunner({
+      client: this.client,
+      query: {
+        model: this.model,
+        maxTokens: 4096 + (this.thinking?.budgetTokens ?? 0),
+        ...thinkingQuery(this.thinking),
+      },
+      models: this.models,
+      hooks: this.hooks,
+      retry: this.retry,
+      usageTracker,
+      usageLabel: 'synthesis',
+      tracer: this.tracer,
+      onResponse: response => {
+        if (this.showThinking) {
+          logThinking(this.logger, response);
+        }
+      },
     });
+    const synthesis = await this.tracer.withSpan('orchestrator.synthesize', { parent: span }, synthesisSpan =>
+      synthesisRunner.run(synthesisPrompt, { signal, parentSpan: synthesisSpan })
+    );
+    const cost = buildCostReport(planUsage, results, synthesis.usage);
+    this.lastCostReport = cost;
 
-    const finalText = finalResponse.content.find(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    )?.text || '';
+    if (synthesis.stopReason === 'aborted') {
+      this.logger.warn('⏹️  統合の途中で中断しました', { detail: synthesis.stopDetail });
+    } else {
+      this.logger.info('✨ オーケストレーション完了');
+    }
+    logCostReport(this.logger, cost);
+
+    return {
+      text: synthesis.text,
+      stopReason: synthesis.stopReason,
+      stopDetail: synthesis.stopDetail,
+      plan,
+      results,
+      synthesis,
+      cost,
+    };
+  }
 
-    console.log('='.repeat(70));
-    console.log('✨ オーケストレーション完了');
+  /**
+   * 直近のorchestrate()の料金内訳を取得
+   *
+   * 上限超過で中断した場合も、それまでの内訳が残ります。
+   */
+  getLastCostReport(): OrchestrationCostReport | null {
+    return this.lastCostReport;
+  }
 
-    return finalText;
+  /**
+   * 1つのタスクをサブエージェントに委譲する
+   *
+   * 失敗した場合（制限時間の超過、未知のサブエージェント、リトライ後のAPIエラーなど）も例外を投げず、
+   * error と errorCode を持つ結果として返す。
+   */
+  private async runTask(task: SubAgentTask, options: SubAgentRunOptions): Promise<SubAgentResult> {
+    try {
+      const run = await this.getSubAgent(task.agentName).run(task.prompt, options);
+      return {
+        agentName: task.agentName,
+        result: run.text,
+        run,
+      };
+    } catch (error) {
+      const agentError = toAgentError(error, 'SUB_AGENT_FAILED');
+      return {
+        agentName: task.agentName,
+        result: '',
+        error: agentError.message,
+        errorCode: agentError.code,
+      };
+    }
+  }
+
+  /**
+   * 名前でサブエージェントを取得
+   */
+  private getSubAgent(agentName: string): SubAgent {
+    const subAgent = this.subAgents.get(agentName);
+    if (!subAgent) {
+      throw new AgentError('UNKNOWN_SUB_AGENT', `サブエージェント "${agentName}" が見つかりません`);
+    }
+    return subAgent;
+  }
+
+  private createUsageTracker(): UsageTracker {
+    return new UsageTracker({ budget: this.budget, prices: this.prices });
+  }
+
+  /**
+   * 中断・上限超過のため、統合せずにそれまでの結果を返す
+   */
+  private stopBeforeSynthesis(
+    plan: OrchestrationPlan,
+    planUsage: UsageTotals,
+    results: SubAgentResult[],
+    stopReason: 'aborted' | 'budget_exceeded',
+    detail: string
+  ): OrchestrationResult {
+    const cost = buildCostReport(planUsage, results, null);
+    this.lastCostReport = cost;
+    this.logger.warn(
+      stopReason === 'aborted' ? '⏹️  オーケストレーションを中断しました' : '⛔ 上限に達したためオーケストレーションを中止しました',
+      { detail, completed: results.length, tasks: plan.tasks.length }
+    );
+    logCostReport(this.logger, cost);
+
+    return {
+      text: '',
+      stopReason,
+      stopDetail: detail,
+      plan,
+      results,
+      cost,
+    };
   }
 
   /**
@@ -276,62 +618,143 @@ ${r.error ? `エラー: ${r.error}` : ''}
 }
 
 /**
- * デモ実行
+ * 実行計画のスキーマを作成（agentNameは登録済みのサブエージェント名に限定する）
  */
-async function demo() {
-  console.log('╔════════════════════════════════════════════════════════════════╗');
-  console.log('║       Claude SDK - サブエージェントパターンのデモ            ║');
-  console.log('╚════════════════════════════════════════════════════════════════╝\n');
+function createPlanSchema(agentNames: string[]) {
+  return {
+    type: 'object',
+    properties: {
+      plan: { type: 'string', description: '実行計画の説明' },
+      tasks: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            agentName: { type: 'string', enum: agentNames, description: '委譲先のサブエージェント名' },
+            prompt: { type: 'string', description: 'サブエージェントへの具体的な指示' },
+          },
+          required: ['agentName', 'prompt'],
+        },
+      },
+      parallel: { type: 'boolean', description: 'タスクを並列実行できるかどうか' },
+    },
+    required: ['plan', 'tasks', 'parallel'],
+  } as const;
+}
 
-  if (!process.env.ANTHROPIC_API_KEY) {
-    console.error('❌ エラー: ANTHROPIC_API_KEYが設定されていません');
-    console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
-    return;
-  }
+/**
+ * 料金内訳を作成
+ */
+function buildCostReport(
+  plan: UsageTotals,
+  results: SubAgentResult[],
+  synthesis: UsageTotals | null
+): OrchestrationCostReport {
+  const subAgents = results
+    .filter((r): r is SubAgentResult & { run: AgentRunResult } => r.run !== undefined)
+    .map(r => ({ agentName: r.agentName, usage: r.run.usage }));
+  const synthesisUsage = synthesis ?? sumUsage([]);
+
+  return {
+    plan,
+    subAgents,
+    synthesis: synthesisUsage,
+    total: sumUsage([plan, ...subAgents.map(s => s.usage), synthesisUsage]),
+  };
+}
 
-  // オーケストレーターを作成
-  const orchestrator = new SubAgentOrchestrator(process.env.ANTHROPIC_API_KEY);
+/**
+ * 料金内訳をログに出力
+ */
+function logCostReport(logger: Logger, report: OrchestrationCostReport): void {
+  logger.info('💰 料金内訳', {
+    plan: formatUsage(report.plan),
+    ...Object.fromEntries(report.subAgents.map(({ agentName, usage }) => [agentName, formatUsage(usage)])),
+    synthesis: formatUsage(report.synthesis),
+    total: formatUsage(report.total),
+  });
+}
 
-  // サブエージェントを登録
-  orchestrator.registerSubAgent({
+/**
+ * 応答に含まれる思考をログに出力
+ */
+function logThinking(logger: Logger, response: Anthropic.Message): void {
+  for (const thinking of extractThinking(response.content)) {
+    logger.info('💭 思考', { thinking });
+  }
+}
+
+/**
+ * デモとCLIで使う標準のサブエージェント
+ */
+const DEFAULT_SUB_AGENTS: SubAgentConfig[] = [
+  {
     name: 'writer',
     systemPrompt: `あなたは創造的なライターです。
 与えられたトピックについて、魅力的で読みやすいコンテンツを作成します。
 具体的な例を含め、読者を引き込む文章を心がけてください。`,
-  });
-
-  orchestrator.registerSubAgent({
+  },
+  {
     name: 'reviewer',
     systemPrompt: `あなたは厳格なレビュアーです。
 与えられたコンテンツを批判的に分析し、改善点を指摘します。
 文法、論理性、明確さ、説得力の観点から評価してください。`,
-  });
-
-  orchestrator.registerSubAgent({
+  },
+  {
     name: 'analyst',
     systemPrompt: `あなたはデータアナリストです。
 与えられた情報を分析し、重要なインサイトや統計を抽出します。
 数値的な分析や傾向の発見に焦点を当ててください。`,
-  });
-
-  orchestrator.registerSubAgent({
+  },
+  {
     name: 'summarizer',
+    model: 'fast', // 要約は高速なモデルで十分
     systemPrompt: `あなたは要約の専門家です。
 長い文章を簡潔にまとめ、重要なポイントを箇条書きで抽出します。
 読者が短時間で内容を理解できるようにしてください。`,
+  },
+];
+
+/**
+ * デモ実行
+ */
+async function demo() {
+  console.log('╔════════════════════════════════════════════════════════════════╗');
+  console.log('║       Claude SDK - サブエージェントパターンのデモ            ║');
+  console.log('╚════════════════════════════════════════════════════════════════╝\n');
+
+  if (!hasApiAccess()) {
+    console.error('❌ エラー: ANTHROPIC_API_KEYが設定されていません');
+    console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+    console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
+    return;
+  }
+
+  // オーケストレーターを作成（応答しないサブエージェントで並列実行が止まらないよう制限時間を設ける）
+  const orchestrator = new SubAgentOrchestrator(process.env.ANTHROPIC_API_KEY ?? '', {
+    subAgentTimeoutMs: 120_000,
   });
 
+  // サブエージェントを登録
+  DEFAULT_SUB_AGENTS.forEach(config => orchestrator.registerSubAgent(config));
+
   console.log('\n📋 登録されたサブエージェント:', orchestrator.listSubAgents().join(', '));
 
+  // Ctrl+C で実行中のデモを中断する
+  const interrupt = interruptOnSigint();
+  const { signal } = interrupt;
+
   try {
     // 例1: 単一サブエージェントへの委譲
     console.log('\n\n📌 例1: 単一サブエージェントへの委譲\n');
     console.log('─'.repeat(70));
     const result1 = await orchestrator.delegateToSubAgent(
       'writer',
-      '人工知能の未来について、300文字程度のブログ記事を書いてください。'
+      '人工知能の未来について、300文字程度のブログ記事を書いてください。',
+      signal
     );
-    console.log('\n📄 結果:\n', result1);
+    console.log('\n📄 結果:\n', result1.text);
 
     // 例2: 並列実行
     console.log('\n\n📌 例2: 複数サブエージェントへの並列委譲\n');
@@ -351,11 +774,11 @@ async function demo() {
       },
     ];
 
-    const parallelResults = await orchestrator.delegateParallel(parallelTasks);
+    const parallelResults = await orchestrator.delegateParallel(parallelTasks, { signal });
     parallelResults.forEach((result) => {
       console.log(`\n📄 [${result.agentName}]:`, result.result);
       if (result.error) {
-        console.log(`❌ エラー: ${result.error}`);
+        console.log(`❌ エラー [${result.errorCode}]: ${result.error}`);
       }
     });
 
@@ -363,13 +786,24 @@ async function demo() {
     console.log('\n\n📌 例3: 自動オーケストレーション（タスク分解と委譲）\n');
     console.log('─'.repeat(70));
     const orchestrationResult = await orchestrator.orchestrate(
-      'クラウドコンピューティングについて詳しく解説し、その内容をレビューして、最後に要約してください。'
+      'クラウドコンピューティングについて詳しく解説し、その内容をレビューして、最後に要約してください。',
+      { signal }
     );
-    console.log('\n📄 最終結果:\n', orchestrationResult);
+    if (orchestrationResult.stopReason === 'aborted') {
+      console.log(`\n⏹️  中断しました（サブエージェントの結果: ${orchestrationResult.results.length}件）`);
+      return;
+    }
+    console.log('\n📄 最終結果:\n', orchestrationResult.text);
 
     console.log('\n\n✨ すべてのデモが完了しました！');
   } catch (error) {
-    console.error('\n❌ エラーが発生しました:', error);
+    if (signal.aborted) {
+      console.log('\n⏹️  中断しました');
+    } else {
+      console.error('\n❌ エラーが発生しました:', error);
+    }
+  } finally {
+    interrupt.dispose();
   }
 }
 
@@ -378,4 +812,17 @@ if (require.main === module) {
   demo().catch(console.error);
 }
 
-export { SubAgent, SubAgentOrchestrator, SubAgentConfig, SubAgentTask, SubAgentResult };
+export {
+  SubAgent,
+  DEFAULT_SUB_AGENTS,
+  SubAgentOrchestrator,
+  SubAgentConfig,
+  SubAgentOrchestratorOptions,
+  SubAgentRunOptions,
+  OrchestrateOptions,
+  SubAgentTask,
+  SubAgentResult,
+  OrchestrationPlan,
+  OrchestrationResult,
+  OrchestrationCostReport,
+};
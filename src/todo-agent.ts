@@ -1,17 +1,28 @@
 import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
+import * as path from 'path';
 import { TodoManager, TodoList } from './todo-manager';
+import { AgentRunner, AgentRunResult, ToolRegistry } from './agent-runner';
+import { DefinedTool, defineTool } from './define-tool';
+import { HookManager } from './hook-manager';
+import { RetryOptions, createResilientClient } from './resilient-client';
+import { SessionStore } from './session-store';
+import { ContextManager, ContextManagerOptions } from './context-manager';
+import { UsageBudget, UsageTracker, formatUsage } from './usage-tracker';
+import { ModelRegistry, defaultModelRegistry } from './model-registry';
+import { DEFAULT_AGENT_CONFIG, ThinkingOptions, extractThinking, thinkingQuery } from './agent-query-types';
+import { interruptOnSigint } from './cancellation';
+import { hasApiAccess } from './cassette';
+import { Logger, getDefaultLogger } from './logger';
 
 dotenv.config();
 
-const client = new Anthropic({
+const defaultClient = createResilientClient({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
-// Todoツールの定義
-export const todoWriteTool: Anthropic.Tool = {
-  name: 'todo_write',
-  description: `タスクリストを作成または更新します。
+// Todoツールの説明
+const TODO_WRITE_DESCRIPTION = `タスクリストを作成または更新します。
 
 使用タイミング:
 - 複雑なタスクを複数のステップに分解する時
@@ -22,62 +33,122 @@ export const todoWriteTool: Anthropic.Tool = {
 - 常に1つのタスクのみを"in_progress"状態にする
 - タスクを完了したらすぐに"completed"にする
 - 新しいタスクを始める前に、現在のタスクを完了させる
-- contentは命令形、activeFormは進行形で記述する`,
-  input_schema: {
-    type: 'object',
-    properties: {
-      todos: {
-        type: 'array',
-        description: '更新されたタスクリスト全体',
-        items: {
-          type: 'object',
-          properties: {
-            content: {
-              type: 'string',
-              description: 'タスクの内容（命令形で記述。例: "ファイルを読み込む"）',
-              minLength: 1
-            },
-            status: {
-              type: 'string',
-              enum: ['pending', 'in_progress', 'completed'],
-              description: `タスクの状態:
-                - pending: 未開始
-                - in_progress: 実行中（常に1つのみ）
-                - completed: 完了`
-            },
-            activeForm: {
-              type: 'string',
-              description: 'タスクの進行形（例: "ファイルを読み込んでいます"）',
-              minLength: 1
-            }
+- contentは命令形、activeFormは進行形で記述する`;
+
+// Todoツールの入力スキーマ
+export const todoWriteSchema = {
+  type: 'object',
+  properties: {
+    todos: {
+      type: 'array',
+      description: '更新されたタスクリスト全体',
+      items: {
+        type: 'object',
+        properties: {
+          content: {
+            type: 'string',
+            description: 'タスクの内容（命令形で記述。例: "ファイルを読み込む"）',
+            minLength: 1
           },
-          required: ['content', 'status', 'activeForm']
-        }
+          status: {
+            type: 'string',
+            enum: ['pending', 'in_progress', 'completed'],
+            description: `タスクの状態:
+              - pending: 未開始
+              - in_progress: 実行中（常に1つのみ）
+              - completed: 完了`
+          },
+          activeForm: {
+            type: 'string',
+            description: 'タスクの進行形（例: "ファイルを読み込んでいます"）',
+            minLength: 1
+          }
+        },
+        required: ['content', 'status', 'activeForm']
       }
-    },
-    required: ['todos']
-  }
-};
+    }
+  },
+  required: ['todos']
+} as const;
+
+// Todoツールの定義（入力はスキーマで検証してからTodoManagerに渡す）
+// 保存先が途中で変わる場合（セッションの切り替えなど）は、現在のTodoManagerを返す関数を渡す
+export function createTodoWriteTool(manager: TodoManager | (() => TodoManager)): DefinedTool {
+  return defineTool({
+    name: 'todo_write',
+    description: TODO_WRITE_DESCRIPTION,
+    schema: todoWriteSchema,
+    handler: (input) => executeTodoWrite(input, typeof manager === 'function' ? manager() : manager),
+  });
+}
 
 // Todoツールを実行
+// 検証に失敗した場合は TodoValidationError をそのまま投げ、ランナーが is_error: true の結果として返す
 export function executeTodoWrite(input: TodoList, manager: TodoManager): string {
-  try {
-    manager.update(input.todos);
-    const stats = manager.getStats();
-    return `✅ タスクリストを更新しました。進捗: ${stats.completed}/${stats.total} (${stats.progress}%)`;
-  } catch (error) {
-    return `❌ エラー: ${error instanceof Error ? error.message : '不明なエラー'}`;
-  }
+  manager.update(input.todos);
+  const stats = manager.getStats();
+  return `✅ タスクリストを更新しました。進捗: ${stats.completed}/${stats.total} (${stats.progress}%)`;
+}
+
+// エージェント実行のオプション
+export interface TodoAgentOptions {
+  client?: Anthropic;
+  hooks?: HookManager;
+  retry?: RetryOptions;
+  // 指定すると会話履歴とTodoをこのセッションに保存し、次回はその続きから再開する
+  sessionId?: string;
+  // セッションの保存先となる作業ディレクトリ（デフォルト: カレントディレクトリ）
+  workDir?: string;
+  // コンテキストウィンドウ管理の設定
+  context?: ContextManagerOptions;
+  // 最終応答とTodo一覧の表示先（デフォルト: 標準出力）
+  output?: NodeJS.WritableStream;
+  // 使用量の記録先と上限
+  usageTracker?: UsageTracker;
+  budget?: UsageBudget;
+  // 使用するモデル（モデルIDまたはエイリアス、デフォルト: 'default'）とレジストリ
+  model?: string;
+  models?: ModelRegistry;
+  // 1回の応答の最大トークン数（デフォルト: 4096、拡張思考を有効にした場合はその予算を加えた値）
+  maxTokens?: number;
+  // 拡張思考の設定と、思考の内容をログに表示するか（デフォルト: 表示しない）
+  thinking?: ThinkingOptions;
+  showThinking?: boolean;
+  // システムプロンプト（デフォルト: Todoで進捗を管理するよう指示するプロンプト）
+  systemPrompt?: string;
+  // ツール使用の最大回数（デフォルト: 30）
+  maxIterations?: number;
+  // ログの出力先（'agent'・'todo' の子ロガーを作成、デフォルト: 共通のロガー）
+  logger?: Logger;
+  // 中断用シグナルと制限時間（中断しても、それまでのTodoは保存・表示される）
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+// エージェントの実行結果（実行結果に加えて、最終的なTodoの状態を持つ）
+export interface TodoAgentResult extends AgentRunResult {
+  todoManager: TodoManager;
 }
 
 // エージェント実行
-export async function runAgentWithTodos(userRequest: string) {
-  const manager = new TodoManager();
+export async function runAgentWithTodos(
+  userRequest: string,
+  options: TodoAgentOptions = {}
+): Promise<TodoAgentResult> {
+  const sessionStore = SessionStore.forWorkDir(options.workDir ?? process.cwd());
+  const logger = (options.logger ?? getDefaultLogger()).child('agent');
+
+  // セッション指定時はTodoもセッションごとのファイルに保存する
+  const manager = new TodoManager(
+    options.sessionId
+      ? sessionStore.getTodoFilePath(options.sessionId)
+      : path.join(options.workDir ?? process.cwd(), '.todos.json'),
+    (options.logger ?? getDefaultLogger()).child('todo')
+  );
 
-  console.log('🤖 エージェント起動\n');
-  console.log(`📝 リクエスト: ${userRequest}\n`);
+  logger.info('🤖 エージェント起動', { request: userRequest });
 
-  const systemPrompt = `あなたは有能なアシスタントです。
+  const systemPrompt = options.systemPrompt ?? `あなたは有能なアシスタントです。
 複雑なタスクを受け取ったら、必ずtodo_writeツールを使用して：
 1. タスクを小さなステップに分解する
 2. 各ステップの進捗を追跡する
@@ -88,98 +159,97 @@ export async function runAgentWithTodos(userRequest: string) {
 - タスクを完了したらすぐに"completed"にする
 - 新しいタスクを始める前に現在のタスクを完了させる`;
 
-  const messages: Anthropic.MessageParam[] = [
-    {
-      role: 'user',
-      content: userRequest
-    }
-  ];
-
-  let response = await client.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
-    max_tokens: 4096,
-    system: systemPrompt,
-    tools: [todoWriteTool],
-    messages
-  });
-
-  // ツール使用のループ
-  let iterations = 0;
-  const maxIterations = 30;
-
-  while (response.stop_reason === 'tool_use' && iterations < maxIterations) {
-    iterations++;
-
-    const toolUses = response.content.filter(
-      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
-    );
-
-    // アシスタントの応答を追加
-    messages.push({ role: 'assistant', content: response.content });
-
-    // テキスト部分があれば表示
-    const textBlock = response.content.find(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    );
-    if (textBlock) {
-      console.log(`💬 ${textBlock.text}\n`);
-    }
-
-    // 各ツールを実行
-    const toolResults: Anthropic.ToolResultBlockParam[] = [];
-
-    for (const toolUse of toolUses) {
-      if (toolUse.name === 'todo_write') {
-        const input = toolUse.input as TodoList;
-        const result = executeTodoWrite(input, manager);
-
-        toolResults.push({
-          type: 'tool_result',
-          tool_use_id: toolUse.id,
-          content: result
-        });
+  const tools = new ToolRegistry().add(createTodoWriteTool(manager));
+
+  const client = options.client ?? defaultClient;
+  const models = options.models ?? defaultModelRegistry;
+  const model = options.model ?? DEFAULT_AGENT_CONFIG.model;
+  const contextWindow = models.get(model)?.contextWindow;
+
+  const runner = new AgentRunner({
+    client,
+    tools,
+    systemPrompt,
+    query: {
+      model,
+      maxTokens: options.maxTokens ?? 4096 + (options.thinking?.budgetTokens ?? 0),
+      cache: { auto: true },
+      ...thinkingQuery(options.thinking)
+    },
+    models,
+    maxIterations: options.maxIterations ?? 30,
+    hooks: options.hooks ?? new HookManager({ logger: (options.logger ?? getDefaultLogger()).child('hooks') }),
+    retry: options.retry,
+    sessionStore,
+    // todo_writeは毎回リスト全体を送るため、古いツール入力から削減する
+    contextManager: new ContextManager(client, {
+      ...(contextWindow !== undefined ? { maxContextTokens: contextWindow } : {}),
+      retry: options.retry,
+      ...options.context
+    }),
+    usageTracker: options.usageTracker,
+    budget: options.budget,
+    onResponse: (response) => {
+      if (options.showThinking) {
+        for (const thinking of extractThinking(response.content)) {
+          logger.info('💭 思考', { thinking });
+        }
+      }
+      // ツール使用中のテキスト部分があれば表示
+      if (response.stop_reason !== 'tool_use') return;
+      const textBlock = response.content.find(
+        (block): block is Anthropic.TextBlock => block.type === 'text'
+      );
+      if (textBlock) {
+        logger.info(`💬 ${textBlock.text}`);
       }
+    },
+    onModelFallback: (from, to) => {
+      logger.warn('⚠️  過負荷のためモデルを切り替えます', { from, to });
     }
+  });
 
-    // ツール結果を追加
-    messages.push({
-      role: 'user',
-      content: toolResults
-    });
-
-    // 次の応答を取得
-    response = await client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4096,
-      system: systemPrompt,
-      tools: [todoWriteTool],
-      messages
-    });
-  }
+  const result = await runner.run(userRequest, {
+    sessionId: options.sessionId,
+    signal: options.signal,
+    timeoutMs: options.timeoutMs
+  });
 
   // 最終的なテキスト応答を表示
-  const finalText = response.content.find(
-    (block): block is Anthropic.TextBlock => block.type === 'text'
-  );
+  const output = options.output ?? process.stdout;
+  if (result.text) {
+    output.write(`\n🎉 エージェントの最終応答:\n${result.text}\n`);
+  }
 
-  if (finalText) {
-    console.log('\n🎉 エージェントの最終応答:');
-    console.log(finalText.text);
+  if (result.stopReason === 'budget_exceeded') {
+    logger.warn('⛔ 上限に達したため停止しました', { detail: result.stopDetail });
+  }
+  if (result.stopReason === 'aborted') {
+    logger.warn('⏹️  中断しました', { detail: result.stopDetail });
+  }
+  if (result.stopReason === 'max_iterations') {
+    logger.warn('⚠️  作業の途中で打ち切りました', { detail: result.stopDetail });
+  }
+  if (result.stopReason === 'max_tokens') {
+    logger.warn('⚠️  応答が最大トークン数で途切れました', {
+      detail: result.stopDetail ?? '続きの要求回数の上限に達しました'
+    });
   }
 
-  console.log(`\n✨ 完了（${iterations}回のツール使用）\n`);
+  logger.info('✨ 完了', { iterations: result.iterations, usage: formatUsage(result.usage) });
 
   // 最終的なTodo状態を表示
-  manager.display();
+  manager.display(output);
 
-  return manager;
+  return { ...result, todoManager: manager };
 }
 
 // メイン実行
 async function main() {
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!hasApiAccess()) {
     console.error('エラー: ANTHROPIC_API_KEYが設定されていません');
     console.log('.envファイルを作成して、ANTHROPIC_API_KEY=your-api-keyを設定してください');
+    console.log('オフラインで実行する場合は ANTHROPIC_CASSETTE に記録済みのカセットを指定してください');
     return;
   }
 
@@ -188,10 +258,14 @@ async function main() {
     process.argv.slice(2).join(' ') ||
     'Webアプリケーションを作成してください。Express.jsでサーバーを立て、HTMLフロントエンドを作成し、簡単なAPIエンドポイントを実装してください。';
 
+  // Ctrl+C で中断しても、それまでのTodoの状態を表示して終了する
+  const interrupt = interruptOnSigint();
   try {
-    await runAgentWithTodos(userRequest);
+    await runAgentWithTodos(userRequest, { signal: interrupt.signal });
   } catch (error) {
     console.error('エラーが発生しました:', error);
+  } finally {
+    interrupt.dispose();
   }
 }
 
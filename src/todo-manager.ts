@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { Logger, getDefaultLogger } from './logger';
 
 // Todoの型定義
 export interface Todo {
@@ -26,9 +27,12 @@ export class TodoValidationError extends Error {
 export class TodoManager {
   private todos: Todo[] = [];
   private todoFile: string;
+  private logger: Logger;
 
-  constructor(todoFile: string = '.todos.json') {
+  // logger を省略すると共通のロガーの 'todo' に出力する
+  constructor(todoFile: string = '.todos.json', logger: Logger = getDefaultLogger().child('todo')) {
     this.todoFile = todoFile;
+    this.logger = logger;
     this.load();
   }
 
@@ -41,7 +45,7 @@ export class TodoManager {
         this.todos = parsed.todos;
       }
     } catch (error) {
-      console.error('Todoの読み込みに失敗:', error);
+      this.logger.error('Todoの読み込みに失敗', { file: this.todoFile, error });
       this.todos = [];
     }
   }
@@ -50,9 +54,10 @@ export class TodoManager {
   private save(): void {
     try {
       const data: TodoList = { todos: this.todos };
+      fs.mkdirSync(path.dirname(this.todoFile), { recursive: true });
       fs.writeFileSync(this.todoFile, JSON.stringify(data, null, 2), 'utf8');
     } catch (error) {
-      console.error('Todoの保存に失敗:', error);
+      this.logger.error('Todoの保存に失敗', { file: this.todoFile, error });
     }
   }
 
@@ -86,12 +91,17 @@ export class TodoManager {
     });
   }
 
-  // Todoリストを更新
+  // Todoリストを更新（一覧の表示は display() で行う）
   update(todos: Todo[]): void {
     this.validate(todos);
     this.todos = todos;
     this.save();
-    this.display();
+
+    const stats = this.getStats();
+    this.logger.info('📋 タスクリストを更新', {
+      progress: `${stats.completed}/${stats.total}`,
+      inProgress: this.getInProgress()?.activeForm,
+    });
   }
 
   // Todoリストを取得
@@ -109,42 +119,44 @@ export class TodoManager {
     return this.todos.find(t => t.status === 'in_progress') || null;
   }
 
-  // Todoリストを表示
-  display(): void {
-    console.log('\n=== 📋 タスクリスト ===\n');
+  // Todoリストを表示（デフォルトは標準出力）
+  display(out: NodeJS.WritableStream = process.stdout): void {
+    const print = (line = '') => out.write(`${line}\n`);
+
+    print('\n=== 📋 タスクリスト ===\n');
 
     const pending = this.getByStatus('pending');
     const inProgress = this.getByStatus('in_progress');
     const completed = this.getByStatus('completed');
 
     if (inProgress.length > 0) {
-      console.log('🔵 実行中:');
+      print('🔵 実行中:');
       inProgress.forEach(todo => {
-        console.log(`  ⏳ ${todo.activeForm}`);
+        print(`  ⏳ ${todo.activeForm}`);
       });
-      console.log();
+      print();
     }
 
     if (pending.length > 0) {
-      console.log('⚪ 未開始:');
+      print('⚪ 未開始:');
       pending.forEach(todo => {
-        console.log(`  ⭕ ${todo.content}`);
+        print(`  ⭕ ${todo.content}`);
       });
-      console.log();
+      print();
     }
 
     if (completed.length > 0) {
-      console.log('🟢 完了:');
+      print('🟢 完了:');
       completed.forEach(todo => {
-        console.log(`  ✅ ${todo.content}`);
+        print(`  ✅ ${todo.content}`);
       });
-      console.log();
+      print();
     }
 
     // 進捗率を計算
     const stats = this.getStats();
     if (stats.total > 0) {
-      console.log(`📊 進捗: ${stats.completed}/${stats.total} (${stats.progress}%)\n`);
+      print(`📊 進捗: ${stats.completed}/${stats.total} (${stats.progress}%)\n`);
     }
   }
 
@@ -0,0 +1,421 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import type { UsageTotals } from './usage-tracker';
+
+/**
+ * スパンの属性値
+ */
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+/**
+ * スパンの属性（undefined の値は記録しない）
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * スパンの種類（OpenTelemetryの SpanKind と同じ値）
+ */
+export const SpanKind = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+} as const;
+
+export type SpanKind = (typeof SpanKind)[keyof typeof SpanKind];
+
+/**
+ * スパンの状態（OpenTelemetryの StatusCode と同じ値）
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+export type SpanStatusCode = (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+/**
+ * スパン内で起きた出来事（例外など）
+ */
+export interface SpanEvent {
+  name: string;
+  /** Unixエポックからのナノ秒 */
+  timeUnixNano: bigint;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * 終了したスパンの記録（エクスポーターに渡される）
+ */
+export interface SpanData {
+  /** 32桁の16進数 */
+  traceId: string;
+  /** 16桁の16進数 */
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** Unixエポックからのナノ秒 */
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Record<string, SpanAttributeValue>;
+  events: SpanEvent[];
+  status: SpanStatus;
+}
+
+/**
+ * 終了したスパンの出力先
+ */
+export interface SpanExporter {
+  export(span: SpanData): void;
+}
+
+/**
+ * スパンを開始する時のオプション
+ */
+export interface StartSpanOptions {
+  /** 親スパン（省略時は新しいトレースのルートになる） */
+  parent?: Span;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * 処理1つ分の区間
+ *
+ * OpenTelemetryの Span と同じ名前のメソッドを持ちます。end() は何度呼んでも1回だけ記録されます。
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  private readonly kind: SpanKind;
+  private readonly startTimeUnixNano: bigint;
+  private readonly attributes: Record<string, SpanAttributeValue> = {};
+  private readonly events: SpanEvent[] = [];
+  private status: SpanStatus = { code: SpanStatusCode.UNSET };
+  private ended = false;
+
+  constructor(
+    name: string,
+    options: StartSpanOptions,
+    private readonly onEnd: (span: SpanData) => void
+  ) {
+    this.traceId = options.parent?.traceId ?? randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = options.parent?.spanId;
+    this.name = name;
+    this.kind = options.kind ?? SpanKind.INTERNAL;
+    this.startTimeUnixNano = nowUnixNano();
+    this.setAttributes(options.attributes ?? {});
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined && !this.ended) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.entries(attributes).forEach(([key, value]) => this.setAttribute(key, value));
+    return this;
+  }
+
+  setStatus(status: SpanStatus): this {
+    if (!this.ended) {
+      this.status = status;
+    }
+    return this;
+  }
+
+  /**
+   * 例外をイベントとして記録し、状態をエラーにする
+   */
+  recordException(error: unknown): this {
+    if (this.ended) {
+      return this;
+    }
+    const err = error instanceof Error ? error : new Error(String(error));
+    const code = (err as { code?: unknown }).code;
+    this.events.push({
+      name: 'exception',
+      timeUnixNano: nowUnixNano(),
+      attributes: {
+        'exception.type': typeof code === 'string' ? code : err.name,
+        'exception.message': err.message,
+      },
+    });
+    return this.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+  }
+
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.onEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTimeUnixNano,
+      endTimeUnixNano: nowUnixNano(),
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: this.status,
+    });
+  }
+}
+
+/**
+ * Tracer
+ *
+ * スパンを作成し、終了したスパンをエクスポーターに渡す。
+ * 親スパンは StartSpanOptions.parent で明示的に渡します（AgentRunOptions.parentSpan など）。
+ *
+ * @example
+ * ```typescript
+ * const tracer = new Tracer({ exporter: new FileSpanExporter('traces/run.jsonl', { format: 'otlp' }) });
+ * const runner = new AgentRunner({ client, tracer });
+ * await runner.run('こんにちは');
+ * ```
+ */
+export class Tracer {
+  private readonly exporters: SpanExporter[];
+
+  constructor(options: { exporter?: SpanExporter | SpanExporter[] } = {}) {
+    const { exporter = [] } = options;
+    this.exporters = Array.isArray(exporter) ? exporter : [exporter];
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    return new Span(name, options, span => this.export(span));
+  }
+
+  /**
+   * スパンを開始して処理を実行し、完了・失敗時にスパンを終了する
+   *
+   * 例外はスパンに記録してからそのまま投げ直します。
+   */
+  async withSpan<T>(name: string, options: StartSpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private export(span: SpanData): void {
+    for (const exporter of this.exporters) {
+      try {
+        exporter.export(span);
+      } catch {
+        // トレースの出力に失敗しても実行は続ける
+      }
+    }
+  }
+}
+
+/**
+ * FileSpanExporterの設定
+ */
+export interface FileSpanExporterOptions {
+  /**
+   * 出力形式（デフォルト: 'jsonl'）
+   *
+   * - jsonl: 1行1スパンの読みやすいJSON
+   * - otlp: 1行1リクエストのOTLP/JSON（ExportTraceServiceRequest）。
+   *   OpenTelemetry Collectorの otlpjsonfile レシーバーでそのまま読み込めます
+   */
+  format?: 'jsonl' | 'otlp';
+
+  /** リソース属性の service.name（デフォルト: 'claude-agent'） */
+  serviceName?: string;
+}
+
+/**
+ * 終了したスパンをファイルに追記するエクスポーター
+ *
+ * Collectorなしでトレースを残すためのもので、スパンが終了するたびに同期的に1行書き込みます。
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly format: 'jsonl' | 'otlp';
+  private readonly serviceName: string;
+
+  constructor(
+    private readonly filePath: string,
+    options: FileSpanExporterOptions = {}
+  ) {
+    this.format = options.format ?? 'jsonl';
+    this.serviceName = options.serviceName ?? DEFAULT_SERVICE_NAME;
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  }
+
+  export(span: SpanData): void {
+    const line = this.format === 'otlp' ? toOtlpRequest(span, this.serviceName) : toJsonlRecord(span);
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n', 'utf-8');
+  }
+}
+
+const DEFAULT_SERVICE_NAME = 'claude-agent';
+const SPAN_KIND_NAMES: Record<SpanKind, string> = { 1: 'internal', 2: 'server', 3: 'client' };
+const STATUS_NAMES: Record<SpanStatusCode, string> = { 0: 'unset', 1: 'ok', 2: 'error' };
+const INSTRUMENTATION_SCOPE = 'claude-agent-sdk-examples';
+
+/**
+ * スパンを記録しないTracer
+ */
+export const noopTracer = new Tracer();
+
+/**
+ * 環境変数の設定でTracerを作成（出力先が未指定なら記録しない）
+ *
+ * - AGENT_TRACE_FILE: トレースの出力先ファイル
+ * - AGENT_TRACE_FORMAT: jsonl / otlp（デフォルト: jsonl）
+ * - OTEL_SERVICE_NAME: リソース属性の service.name
+ */
+export function createTracerFromEnv(env: NodeJS.ProcessEnv = process.env): Tracer {
+  const file = env.AGENT_TRACE_FILE;
+  if (!file) {
+    return noopTracer;
+  }
+  const format = env.AGENT_TRACE_FORMAT?.toLowerCase() === 'otlp' ? 'otlp' : 'jsonl';
+  return new Tracer({
+    exporter: new FileSpanExporter(file, { format, serviceName: env.OTEL_SERVICE_NAME }),
+  });
+}
+
+let defaultTracer: Tracer | undefined;
+
+/**
+ * Tracerを指定しなかった時に使う共通のTracer（初回呼び出し時に環境変数から作成）
+ */
+export function getDefaultTracer(): Tracer {
+  defaultTracer ??= createTracerFromEnv();
+  return defaultTracer;
+}
+
+/**
+ * 共通のTracerを差し替える
+ */
+export function setDefaultTracer(tracer: Tracer): void {
+  defaultTracer = tracer;
+}
+
+/**
+ * 使用量をスパンの属性に変換（OpenTelemetryの gen_ai.usage.* 属性）
+ */
+export function usageAttributes(usage: UsageTotals): SpanAttributes {
+  return {
+    'gen_ai.usage.input_tokens': usage.inputTokens,
+    'gen_ai.usage.output_tokens': usage.outputTokens,
+    'gen_ai.usage.cache_creation_input_tokens': usage.cacheCreationInputTokens,
+    'gen_ai.usage.cache_read_input_tokens': usage.cacheReadInputTokens,
+    'agent.cost_usd': usage.costUsd,
+  };
+}
+
+function nowUnixNano(): bigint {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6));
+}
+
+/**
+ * jsonl 形式の1行
+ */
+function toJsonlRecord(span: SpanData) {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    kind: SPAN_KIND_NAMES[span.kind],
+    startTime: new Date(Number(span.startTimeUnixNano / 1_000_000n)).toISOString(),
+    durationMs: Number(span.endTimeUnixNano - span.startTimeUnixNano) / 1e6,
+    attributes: span.attributes,
+    events: span.events.map(event => ({
+      name: event.name,
+      time: new Date(Number(event.timeUnixNano / 1_000_000n)).toISOString(),
+      attributes: event.attributes,
+    })),
+    status: STATUS_NAMES[span.status.code],
+    statusMessage: span.status.message,
+  };
+}
+
+/**
+ * otlp 形式の1行（ExportTraceServiceRequest のJSON表現）
+ */
+function toOtlpRequest(span: SpanData, serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toOtlpAttributes({ 'service.name': serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: INSTRUMENTATION_SCOPE },
+            spans: [
+              {
+                traceId: span.traceId,
+                spanId: span.spanId,
+                ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+                name: span.name,
+                kind: span.kind,
+                startTimeUnixNano: span.startTimeUnixNano.toString(),
+                endTimeUnixNano: span.endTimeUnixNano.toString(),
+                attributes: toOtlpAttributes(span.attributes),
+                events: span.events.map(event => ({
+                  name: event.name,
+                  timeUnixNano: event.timeUnixNano.toString(),
+                  attributes: toOtlpAttributes(event.attributes),
+                })),
+                status: {
+                  code: span.status.code,
+                  ...(span.status.message ? { message: span.status.message } : {}),
+                },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+/**
+ * 属性値をOTLPの AnyValue に変換（64ビット整数は文字列で表す）
+ */
+function toOtlpValue(value: SpanAttributeValue): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: (value as Array<string | number | boolean>).map(toOtlpValue) } };
+  }
+  switch (typeof value) {
+    case 'string':
+      return { stringValue: value };
+    case 'boolean':
+      return { boolValue: value };
+    default:
+      return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+}
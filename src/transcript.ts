@@ -0,0 +1,573 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentRunResult } from './agent-runner';
+import type { SessionData } from './session-store';
+import type { OrchestrationCostReport, OrchestrationResult } from './sub-agent-example';
+import type { Todo } from './todo-manager';
+import { UsageRecord, UsageTotals, formatUsage, sumUsage } from './usage-tracker';
+
+/**
+ * トランスクリプトの1ブロック
+ */
+export type TranscriptBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string; redacted: boolean }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; toolUseId: string; name?: string; content: string; isError: boolean }
+  /** todo_write の実行後のTodoリスト */
+  | { type: 'todos'; todos: Todo[] }
+  /** 画像・ドキュメントなど本文を表示しないブロック */
+  | { type: 'other'; label: string };
+
+/**
+ * トランスクリプトの1ターン
+ */
+export interface TranscriptTurn {
+  role: 'user' | 'assistant';
+  blocks: TranscriptBlock[];
+  /** このターンの応答の使用量（アシスタントのターンのみ、記録がある場合） */
+  usage?: UsageTotals;
+}
+
+/**
+ * サブエージェント1つ分の記録
+ */
+export interface SubAgentTranscript {
+  name: string;
+  prompt: string;
+  error?: string;
+  errorCode?: string;
+  /** サブエージェントの会話（エラーで終了した場合はなし） */
+  transcript?: Transcript;
+}
+
+/**
+ * オーケストレーションの記録（サブエージェントのツリー）
+ */
+export interface OrchestrationTranscript {
+  plan: string;
+  parallel: boolean;
+  subAgents: SubAgentTranscript[];
+  /** 統合の会話（統合の前に停止した場合はなし） */
+  synthesis?: Transcript;
+  cost: OrchestrationCostReport;
+}
+
+/**
+ * 書き出し用に整理した会話の記録
+ *
+ * transcriptFromRun / transcriptFromSession / transcriptFromOrchestration で作成し、
+ * renderMarkdown / renderHtml で出力します。
+ */
+export interface Transcript {
+  title: string;
+  /** 記録の日時（ISO 8601形式） */
+  createdAt?: string;
+  turns: TranscriptTurn[];
+  stopReason?: string | null;
+  /** 全体の使用量 */
+  usage?: UsageTotals;
+  orchestration?: OrchestrationTranscript;
+}
+
+export type TranscriptFormat = 'markdown' | 'html';
+
+export interface TranscriptOptions {
+  /** 見出し（デフォルト: 'エージェントの実行記録'） */
+  title?: string;
+
+  /** 思考（thinking / redacted_thinking ブロック）を含めるか（デフォルト: false） */
+  showThinking?: boolean;
+}
+
+const DEFAULT_TITLE = 'エージェントの実行記録';
+
+const TODO_ICONS: Record<Todo['status'], string> = {
+  in_progress: '⏳',
+  pending: '⭕',
+  completed: '✅',
+};
+
+/**
+ * 実行結果からトランスクリプトを作成
+ *
+ * 使用量はイテレーションごとに集計し、この実行で追加されたアシスタントのターンに付けます
+ * （セッションを再開した場合の過去のターンには付きません）。
+ */
+export function transcriptFromRun(result: AgentRunResult, options: TranscriptOptions = {}): Transcript {
+  const turns = toTurns(result.messages, options.showThinking ?? false);
+
+  const usageByIteration = groupUsageByIteration(result.usageByIteration);
+  const assistantTurns = turns.filter(turn => turn.role === 'assistant');
+  const offset = assistantTurns.length - usageByIteration.length;
+  usageByIteration.forEach((usage, i) => {
+    const turn = assistantTurns[offset + i];
+    if (turn) turn.usage = usage;
+  });
+
+  return {
+    title: options.title ?? DEFAULT_TITLE,
+    createdAt: new Date().toISOString(),
+    turns,
+    stopReason: result.stopReason,
+    usage: result.usage,
+  };
+}
+
+/**
+ * 保存済みのセッションからトランスクリプトを作成（セッションには使用量が保存されないため含まない）
+ */
+export function transcriptFromSession(session: SessionData, options: TranscriptOptions = {}): Transcript {
+  return {
+    title: options.title ?? `セッション ${session.id}`,
+    createdAt: session.updatedAt,
+    turns: toTurns(session.messages, options.showThinking ?? false),
+  };
+}
+
+/**
+ * orchestrate() の結果からトランスクリプトを作成
+ *
+ * @param request - orchestrate() に渡したユーザーのリクエスト
+ */
+export function transcriptFromOrchestration(
+  request: string,
+  result: OrchestrationResult,
+  options: TranscriptOptions = {}
+): Transcript {
+  const subAgents = result.results.map((r, i): SubAgentTranscript => ({
+    name: r.agentName,
+    prompt: result.plan.tasks[i]?.prompt ?? '',
+    error: r.error,
+    errorCode: r.errorCode,
+    transcript: r.run ? transcriptFromRun(r.run, { title: r.agentName, showThinking: options.showThinking }) : undefined,
+  }));
+
+  return {
+    title: options.title ?? 'オーケストレーションの実行記録',
+    createdAt: new Date().toISOString(),
+    turns: [
+      { role: 'user', blocks: [{ type: 'text', text: request }] },
+      { role: 'assistant', blocks: [{ type: 'text', text: result.text }] },
+    ],
+    stopReason: result.stopReason,
+    usage: result.cost.total,
+    orchestration: {
+      plan: result.plan.plan,
+      parallel: result.plan.parallel,
+      subAgents,
+      synthesis: result.synthesis
+        ? transcriptFromRun(result.synthesis, { title: '統合', showThinking: options.showThinking })
+        : undefined,
+      cost: result.cost,
+    },
+  };
+}
+
+/**
+ * ファイルの拡張子から出力形式を決める（.html / .htm は HTML、それ以外は Markdown）
+ */
+export function formatForFile(filePath: string): TranscriptFormat {
+  return /\.html?$/i.test(filePath) ? 'html' : 'markdown';
+}
+
+/**
+ * トランスクリプトをファイルに書き出す（形式を省略すると拡張子から決める）
+ */
+export function writeTranscript(transcript: Transcript, filePath: string, format = formatForFile(filePath)): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, renderTranscript(transcript, format), 'utf-8');
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  return format === 'html' ? renderHtml(transcript) : renderMarkdown(transcript);
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * Markdownで出力（ツールの入出力とサブエージェントの会話は <details> で折りたたむ）
+ */
+export function renderMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# ${transcript.title}`, '', ...markdownSummary(transcript), ''];
+
+  if (transcript.orchestration) {
+    lines.push(...markdownOrchestration(transcript, transcript.orchestration));
+  } else {
+    lines.push(...markdownTurns(transcript.turns, 2));
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function markdownSummary(transcript: Transcript): string[] {
+  return [
+    transcript.createdAt && `- 日時: ${transcript.createdAt}`,
+    transcript.stopReason !== undefined && `- 停止理由: ${transcript.stopReason ?? 'なし'}`,
+    transcript.usage && `- 💰 使用量: ${formatUsage(transcript.usage)}`,
+  ].filter((line): line is string => typeof line === 'string');
+}
+
+function markdownTurns(turns: TranscriptTurn[], level: number): string[] {
+  const heading = '#'.repeat(level);
+  return turns.flatMap(turn => [
+    `${heading} ${turn.role === 'user' ? '👤 ユーザー' : '🤖 アシスタント'}`,
+    '',
+    ...turn.blocks.flatMap(block => [...markdownBlock(block), '']),
+    ...(turn.usage ? [`> 💰 ${formatUsage(turn.usage)}`, ''] : []),
+  ]);
+}
+
+function markdownBlock(block: TranscriptBlock): string[] {
+  switch (block.type) {
+    case 'text':
+      return [block.text];
+    case 'thinking':
+      return block.redacted
+        ? ['> 💭 （伏せられた思考）']
+        : markdownDetails('💭 思考', [block.thinking]);
+    case 'tool_use':
+      return markdownDetails(`🔧 ${block.name}`, [fence(JSON.stringify(block.input, null, 2), 'json')]);
+    case 'tool_result':
+      return markdownDetails(
+        `${block.isError ? '❌' : '✅'} ${block.name ?? 'ツール'} の結果`,
+        [fence(block.content)]
+      );
+    case 'todos':
+      return [
+        '**📋 タスクリスト**',
+        '',
+        ...block.todos.map(todo => `- ${TODO_ICONS[todo.status]} ${todo.status === 'in_progress' ? todo.activeForm : todo.content}`),
+      ];
+    case 'other':
+      return [`_（${block.label}）_`];
+  }
+}
+
+function markdownOrchestration(transcript: Transcript, orchestration: OrchestrationTranscript): string[] {
+  const [request, answer] = transcript.turns;
+  return [
+    '## 👤 リクエスト',
+    '',
+    ...request.blocks.flatMap(block => markdownBlock(block)),
+    '',
+    '## 🌳 サブエージェント',
+    '',
+    ...subAgentTree(orchestration).map(({ depth, label }) => `${'  '.repeat(depth)}- ${label}`),
+    '',
+    `## 📊 実行計画`,
+    '',
+    orchestration.plan,
+    '',
+    ...orchestration.subAgents.flatMap(subAgent => [
+      `### 🤖 ${subAgent.name}`,
+      '',
+      `> ${subAgent.prompt.replace(/\n/g, '\n> ')}`,
+      '',
+      ...(subAgent.error ? [`❌ エラー [${subAgent.errorCode}]: ${subAgent.error}`, ''] : []),
+      ...(subAgent.transcript
+        ? markdownDetails('会話を表示', markdownTurns(subAgent.transcript.turns, 4))
+        : []),
+      '',
+    ]),
+    ...(orchestration.synthesis
+      ? ['## 🔄 統合', '', ...markdownDetails('会話を表示', markdownTurns(orchestration.synthesis.turns, 4)), '']
+      : []),
+    '## 📄 最終結果',
+    '',
+    ...answer.blocks.flatMap(block => markdownBlock(block)),
+    '',
+    '## 💰 料金内訳',
+    '',
+    '| 段階 | 使用量 |',
+    '| --- | --- |',
+    ...costRows(orchestration.cost).map(([label, usage]) => `| ${label} | ${formatUsage(usage)} |`),
+  ];
+}
+
+function markdownDetails(summary: string, body: string[]): string[] {
+  return ['<details>', `<summary>${escapeHtml(summary)}</summary>`, '', ...body, '', '</details>'];
+}
+
+/**
+ * コードブロックで囲む（内容に ``` が含まれる場合はより長いフェンスを使う）
+ */
+function fence(content: string, language = ''): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Hiragino Sans", "Noto Sans JP", sans-serif; max-width: 880px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.6; }
+h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3rem; }
+.meta { color: #57606a; font-size: .9rem; }
+.turn { border: 1px solid #d0d7de; border-radius: 8px; padding: .75rem 1rem; margin: 1rem 0; }
+.turn.user { background: #f6f8fa; }
+.role { font-weight: bold; margin-bottom: .5rem; }
+.text { white-space: pre-wrap; }
+details { margin: .5rem 0; border-left: 3px solid #d0d7de; padding-left: .75rem; }
+details.error { border-left-color: #cf222e; }
+summary { cursor: pointer; color: #57606a; }
+pre { background: #f6f8fa; padding: .5rem; overflow-x: auto; white-space: pre-wrap; }
+.usage { color: #57606a; font-size: .85rem; margin-top: .5rem; }
+.todos { list-style: none; padding-left: .5rem; }
+.tree, .tree ul { list-style: none; padding-left: 1.25rem; }
+.error-text { color: #cf222e; }
+table { border-collapse: collapse; }
+td, th { border: 1px solid #d0d7de; padding: .25rem .75rem; text-align: left; }
+`.trim();
+
+/**
+ * 外部ファイルに依存しない1つのHTMLで出力（折りたたみは <details> を使うためスクリプト不要）
+ */
+export function renderHtml(transcript: Transcript): string {
+  const meta = markdownSummary(transcript).map(line => escapeHtml(line.replace(/^- /, '')));
+  const body = transcript.orchestration
+    ? htmlOrchestration(transcript, transcript.orchestration)
+    : htmlTurns(transcript.turns);
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(transcript.title)}</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(transcript.title)}</h1>
+<p class="meta">${meta.join('<br>')}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+function htmlTurns(turns: TranscriptTurn[]): string {
+  return turns
+    .map(
+      turn => `<section class="turn ${turn.role}">
+<div class="role">${turn.role === 'user' ? '👤 ユーザー' : '🤖 アシスタント'}</div>
+${turn.blocks.map(htmlBlock).join('\n')}${
+        turn.usage ? `\n<div class="usage">💰 ${escapeHtml(formatUsage(turn.usage))}</div>` : ''
+      }
+</section>`
+    )
+    .join('\n');
+}
+
+function htmlBlock(block: TranscriptBlock): string {
+  switch (block.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(block.text)}</div>`;
+    case 'thinking':
+      return block.redacted
+        ? '<p class="meta">💭 （伏せられた思考）</p>'
+        : htmlDetails('💭 思考', `<pre>${escapeHtml(block.thinking)}</pre>`);
+    case 'tool_use':
+      return htmlDetails(`🔧 ${block.name}`, `<pre>${escapeHtml(JSON.stringify(block.input, null, 2))}</pre>`);
+    case 'tool_result':
+      return htmlDetails(
+        `${block.isError ? '❌' : '✅'} ${block.name ?? 'ツール'} の結果`,
+        `<pre>${escapeHtml(block.content)}</pre>`,
+        block.isError ? 'error' : undefined
+      );
+    case 'todos':
+      return `<div><strong>📋 タスクリスト</strong><ul class="todos">${block.todos
+        .map(
+          todo =>
+            `<li>${TODO_ICONS[todo.status]} ${escapeHtml(todo.status === 'in_progress' ? todo.activeForm : todo.content)}</li>`
+        )
+        .join('')}</ul></div>`;
+    case 'other':
+      return `<p class="meta">（${escapeHtml(block.label)}）</p>`;
+  }
+}
+
+function htmlOrchestration(transcript: Transcript, orchestration: OrchestrationTranscript): string {
+  const [request, answer] = transcript.turns;
+  return `<h2>👤 リクエスト</h2>
+${request.blocks.map(htmlBlock).join('\n')}
+<h2>🌳 サブエージェント</h2>
+${htmlTree(subAgentTree(orchestration))}
+<h2>📊 実行計画</h2>
+<div class="text">${escapeHtml(orchestration.plan)}</div>
+${orchestration.subAgents
+  .map(
+    subAgent => `<h3>🤖 ${escapeHtml(subAgent.name)}</h3>
+<blockquote class="text">${escapeHtml(subAgent.prompt)}</blockquote>${
+      subAgent.error
+        ? `\n<p class="error-text">❌ エラー [${escapeHtml(subAgent.errorCode ?? '')}]: ${escapeHtml(subAgent.error)}</p>`
+        : ''
+    }${subAgent.transcript ? `\n${htmlDetails('会話を表示', htmlTurns(subAgent.transcript.turns))}` : ''}`
+  )
+  .join('\n')}
+${
+  orchestration.synthesis
+    ? `<h2>🔄 統合</h2>\n${htmlDetails('会話を表示', htmlTurns(orchestration.synthesis.turns))}\n`
+    : ''
+}<h2>📄 最終結果</h2>
+${answer.blocks.map(htmlBlock).join('\n')}
+<h2>💰 料金内訳</h2>
+<table>
+<tr><th>段階</th><th>使用量</th></tr>
+${costRows(orchestration.cost)
+  .map(([label, usage]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(formatUsage(usage))}</td></tr>`)
+  .join('\n')}
+</table>`;
+}
+
+/**
+ * 深さ付きの項目の一覧を入れ子の <ul> にする
+ */
+function htmlTree(items: Array<{ depth: number; label: string }>): string {
+  let html = '<ul class="tree">';
+  let depth = 0;
+  items.forEach((item, i) => {
+    if (i > 0 && item.depth > depth) {
+      html += '<ul>'.repeat(item.depth - depth);
+    } else if (i > 0) {
+      html += '</li>' + '</ul></li>'.repeat(depth - item.depth);
+    }
+    html += `<li>${escapeHtml(item.label)}`;
+    depth = item.depth;
+  });
+  return html + '</li>' + '</ul></li>'.repeat(depth) + '</ul>';
+}
+
+function htmlDetails(summary: string, body: string, className?: string): string {
+  return `<details${className ? ` class="${className}"` : ''}><summary>${escapeHtml(summary)}</summary>
+${body}
+</details>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// 共通
+// ============================================================================
+
+/**
+ * 会話履歴をターンの一覧に変換
+ *
+ * tool_result には対応するtool_useのツール名を付け、
+ * 成功した todo_write の結果の後にはその時点のTodoリストを挿入する。
+ * showThinking が false の場合、思考のブロックは含めない。
+ */
+function toTurns(messages: Anthropic.MessageParam[], showThinking: boolean): TranscriptTurn[] {
+  const toolUses = new Map<string, { name: string; input: unknown }>();
+
+  return messages.map(message => {
+    const content: Anthropic.ContentBlockParam[] =
+      typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content;
+
+    const blocks = content.flatMap((block): TranscriptBlock[] => {
+      switch (block.type) {
+        case 'text':
+          return [{ type: 'text', text: block.text }];
+        case 'thinking':
+          return showThinking ? [{ type: 'thinking', thinking: block.thinking, redacted: false }] : [];
+        case 'redacted_thinking':
+          return showThinking ? [{ type: 'thinking', thinking: '', redacted: true }] : [];
+        case 'tool_use':
+          toolUses.set(block.id, { name: block.name, input: block.input });
+          return [{ type: 'tool_use', id: block.id, name: block.name, input: block.input }];
+        case 'tool_result': {
+          const toolUse = toolUses.get(block.tool_use_id);
+          const isError = block.is_error === true;
+          const result: TranscriptBlock = {
+            type: 'tool_result',
+            toolUseId: block.tool_use_id,
+            name: toolUse?.name,
+            content: toolResultText(block.content),
+            isError,
+          };
+          const todos = toolUse?.name === 'todo_write' && !isError ? todosOf(toolUse.input) : null;
+          return todos ? [result, { type: 'todos', todos }] : [result];
+        }
+        default:
+          return [{ type: 'other', label: block.type }];
+      }
+    });
+
+    return { role: message.role, blocks };
+  });
+}
+
+function toolResultText(content: Anthropic.ToolResultBlockParam['content']): string {
+  if (content === undefined) return '';
+  if (typeof content === 'string') return content;
+  return content.map(block => (block.type === 'text' ? block.text : `（${block.type}）`)).join('\n');
+}
+
+/**
+ * todo_write の入力からTodoリストを取り出す（形式が違う場合は null）
+ */
+function todosOf(input: unknown): Todo[] | null {
+  const todos = (input as { todos?: unknown } | null)?.todos;
+  if (!Array.isArray(todos)) return null;
+  return todos.filter(
+    (todo): todo is Todo =>
+      typeof todo?.content === 'string' && typeof todo?.activeForm === 'string' && todo?.status in TODO_ICONS
+  );
+}
+
+/**
+ * イテレーションごとに使用量を合計（途切れた応答の続きは同じイテレーションにまとめる）
+ */
+function groupUsageByIteration(records: UsageRecord[]): UsageTotals[] {
+  const groups = new Map<number, UsageRecord[]>();
+  records.forEach(record => {
+    const iteration = record.iteration ?? 0;
+    groups.set(iteration, [...(groups.get(iteration) ?? []), record]);
+  });
+  return [...groups.entries()].sort(([a], [b]) => a - b).map(([, group]) => sumUsage(group));
+}
+
+/**
+ * オーケストレーションのツリー（計画 → サブエージェント → 統合）
+ */
+function subAgentTree(orchestration: OrchestrationTranscript): Array<{ depth: number; label: string }> {
+  const { cost } = orchestration;
+
+  return [
+    { depth: 0, label: `🎯 オーケストレーター（${formatUsage(cost.total)}）` },
+    { depth: 1, label: `📊 計画（${formatUsage(cost.plan)}）` },
+    { depth: 1, label: `🚀 ${orchestration.parallel ? '並列' : '順次'}実行` },
+    ...orchestration.subAgents.map(subAgent => {
+      const usage = subAgent.transcript?.usage;
+      return {
+        depth: 2,
+        label: subAgent.error
+          ? `❌ ${subAgent.name}（${subAgent.errorCode}）`
+          : `🤖 ${subAgent.name}${usage ? `（${formatUsage(usage)}）` : ''}`,
+      };
+    }),
+    ...(orchestration.synthesis ? [{ depth: 1, label: `🔄 統合（${formatUsage(cost.synthesis)}）` }] : []),
+  ];
+}
+
+function costRows(cost: OrchestrationCostReport): Array<[string, UsageTotals]> {
+  return [
+    ['計画', cost.plan],
+    ...cost.subAgents.map(({ agentName, usage }): [string, UsageTotals] => [agentName, usage]),
+    ['統合', cost.synthesis],
+    ['合計', cost.total],
+  ];
+}
@@ -0,0 +1,255 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * モデルごとの料金（USD / 100万トークン）
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export type PriceTable = Record<string, ModelPricing>;
+
+/**
+ * デフォルトの料金表
+ *
+ * キーはモデルIDの接頭辞として照合されます（例: 'claude-sonnet-4-5' は 'claude-sonnet-4-5-20250929' にも一致）。
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+/**
+ * トークン数と料金の集計値
+ */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  /** 料金（USD）。料金表にないモデルの分は含まれません */
+  costUsd: number;
+}
+
+/**
+ * 1回のAPI呼び出しの使用量
+ */
+export interface UsageRecord extends UsageTotals {
+  model: string;
+  /** 呼び出し元の識別子（例: 'plan', 'writer', 'synthesis'） */
+  label?: string;
+  /** ツール使用ループのイテレーション番号 */
+  iteration?: number;
+}
+
+/**
+ * 使用量の上限
+ */
+export interface UsageBudget {
+  /** 入力・出力・キャッシュを合わせた最大トークン数 */
+  maxTokens?: number;
+  /** 最大料金（USD） */
+  maxCostUsd?: number;
+}
+
+/**
+ * UsageTrackerの設定
+ */
+export interface UsageTrackerOptions {
+  /** 料金表（デフォルト: DEFAULT_PRICE_TABLE） */
+  prices?: PriceTable;
+  /** 使用量の上限 */
+  budget?: UsageBudget;
+}
+
+/**
+ * 空の集計値を作成
+ */
+export function emptyUsage(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * 集計値を合算
+ */
+export function sumUsage(items: UsageTotals[]): UsageTotals {
+  return items.reduce(
+    (total, item) => ({
+      inputTokens: total.inputTokens + item.inputTokens,
+      outputTokens: total.outputTokens + item.outputTokens,
+      cacheCreationInputTokens: total.cacheCreationInputTokens + item.cacheCreationInputTokens,
+      cacheReadInputTokens: total.cacheReadInputTokens + item.cacheReadInputTokens,
+      costUsd: total.costUsd + item.costUsd,
+    }),
+    emptyUsage()
+  );
+}
+
+/**
+ * 集計値の総トークン数
+ */
+export function totalTokens(usage: UsageTotals): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheCreationInputTokens +
+    usage.cacheReadInputTokens
+  );
+}
+
+/**
+ * 集計値を1行の文字列に整形
+ */
+export function formatUsage(usage: UsageTotals): string {
+  return (
+    `入力 ${usage.inputTokens} / 出力 ${usage.outputTokens} / ` +
+    `キャッシュ書込 ${usage.cacheCreationInputTokens} / キャッシュ読込 ${usage.cacheReadInputTokens} ` +
+    `($${usage.costUsd.toFixed(4)})`
+  );
+}
+
+/**
+ * 上限を超えているか判定し、超えていればその理由を返す
+ */
+export function checkBudget(usage: UsageTotals, budget: UsageBudget | undefined): string | null {
+  if (!budget) return null;
+
+  const tokens = totalTokens(usage);
+  if (budget.maxTokens !== undefined && tokens > budget.maxTokens) {
+    return `トークン上限を超えました（${tokens} > ${budget.maxTokens}）`;
+  }
+  if (budget.maxCostUsd !== undefined && usage.costUsd > budget.maxCostUsd) {
+    return `料金上限を超えました（$${usage.costUsd.toFixed(4)} > $${budget.maxCostUsd}）`;
+  }
+  return null;
+}
+
+/**
+ * UsageTracker
+ *
+ * API呼び出しごとの使用量を記録し、料金表に基づいて料金を計算する。
+ * 複数のエージェントで1つのトラッカーを共有すると、上限も全体に対して適用されます。
+ *
+ * @example
+ * ```typescript
+ * const tracker = new UsageTracker({ budget: { maxCostUsd: 0.5 } });
+ * const runner = new AgentRunner({ client, usageTracker: tracker });
+ * await runner.run('...');
+ * console.log(formatUsage(tracker.getTotals()));
+ * ```
+ */
+export class UsageTracker {
+  private prices: PriceTable;
+  private budget?: UsageBudget;
+  private records: UsageRecord[] = [];
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.prices = options.prices ?? DEFAULT_PRICE_TABLE;
+    this.budget = options.budget;
+  }
+
+  /**
+   * 応答の使用量を記録
+   */
+  record(
+    model: string,
+    usage: Anthropic.Usage,
+    meta: { label?: string; iteration?: number } = {}
+  ): UsageRecord {
+    const record: UsageRecord = {
+      model,
+      ...meta,
+      ...this.calculate(model, usage),
+    };
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * 使用量から料金を計算（記録はしない）
+   */
+  calculate(model: string, usage: Anthropic.Usage): UsageTotals {
+    const totals: UsageTotals = {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+      cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+      costUsd: 0,
+    };
+
+    const pricing = this.findPricing(model);
+    if (pricing) {
+      totals.costUsd =
+        (totals.inputTokens * pricing.input +
+          totals.outputTokens * pricing.output +
+          totals.cacheCreationInputTokens * pricing.cacheWrite +
+          totals.cacheReadInputTokens * pricing.cacheRead) /
+        1_000_000;
+    }
+
+    return totals;
+  }
+
+  /**
+   * 記録した使用量の一覧を取得
+   */
+  getRecords(): UsageRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * 全体の集計値を取得
+   */
+  getTotals(): UsageTotals {
+    return sumUsage(this.records);
+  }
+
+  /**
+   * ラベルごとの集計値を取得
+   */
+  getTotalsByLabel(): Record<string, UsageTotals> {
+    const groups: Record<string, UsageRecord[]> = {};
+    for (const record of this.records) {
+      const label = record.label ?? '(none)';
+      (groups[label] ??= []).push(record);
+    }
+    return Object.fromEntries(
+      Object.entries(groups).map(([label, records]) => [label, sumUsage(records)])
+    );
+  }
+
+  /**
+   * 上限を超えていればその理由を返す
+   */
+  checkBudget(): string | null {
+    return checkBudget(this.getTotals(), this.budget);
+  }
+
+  /**
+   * モデルIDに一致する料金を探す（完全一致を優先し、次に最長の接頭辞一致）
+   */
+  private findPricing(model: string): ModelPricing | undefined {
+    if (this.prices[model]) {
+      return this.prices[model];
+    }
+    const prefix = Object.keys(this.prices)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : undefined;
+  }
+}
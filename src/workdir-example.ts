@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import { LoadedAgentConfig, loadAgentConfig } from './agent-config';
 
 /**
  * Node.jsの作業ディレクトリ（Working Directory）の仕組みと制御方法
@@ -171,21 +172,15 @@ export class FixedDirectoryWorker {
 /**
  * 方法3: 環境変数を使って作業ディレクトリを指定
  *
- * ts-nodeの場合: TS_NODE_CWD環境変数を使用できます
+ * 環境変数（CLAUDE_WORK_DIR、TS_NODE_CWD、WORK_DIR）は設定の環境変数の階層として読み込まれ、
+ * 設定ファイルの sandbox.workDir より優先されます（どれもなければデフォルトの /tmp/claude-workspace）。
  */
-export function getWorkDirFromEnv(): string {
-  const envCwd = process.env.TS_NODE_CWD || process.env.WORK_DIR;
-
-  if (envCwd) {
-    console.log('=== 方法3: 環境変数から取得 ===');
-    console.log('TS_NODE_CWD:', process.env.TS_NODE_CWD);
-    console.log('WORK_DIR:', process.env.WORK_DIR);
-    console.log('使用するディレクトリ:', envCwd);
-    console.log();
-    return envCwd;
-  }
-
-  return process.cwd();
+export function getWorkDirFromEnv(loaded: LoadedAgentConfig = loadAgentConfig()): string {
+  console.log('=== 方法3: 環境変数から取得 ===');
+  console.log('設定の階層:', loaded.sources.join(' < '));
+  console.log('使用するディレクトリ:', loaded.config.sandbox.workDir);
+  console.log();
+  return loaded.config.sandbox.workDir;
 }
 
 /**
@@ -233,8 +228,8 @@ async function demo() {
   console.log('─'.repeat(60));
   console.log();
 
-  // 方法3: 環境変数を使う
-  const envWorkDir = getWorkDirFromEnv();
+  // 方法3: 環境変数を使う（設定の環境変数の階層から読み込む）
+  const envWorkDir = getWorkDirFromEnv(loadAgentConfig());
   console.log('環境変数で指定された作業ディレクトリ:', envWorkDir);
 
   console.log('\n✨ デモ完了！\n');
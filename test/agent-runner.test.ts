@@ -0,0 +1,211 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { AgentRunner, AgentRunnerConfig, ToolHandler, ToolRegistry } from '../src/agent-runner';
+import { FakeMessagesApi, fakeTurn, getToolResults } from '../src/fake-messages-api';
+import { HookManager } from '../src/hook-manager';
+import { ModelRegistry } from '../src/model-registry';
+import { thinkingQuery } from '../src/agent-query-types';
+
+/**
+ * フェイクAPIを呼び出すAgentRunnerを作成
+ */
+function createRunner(api: FakeMessagesApi, config: Partial<AgentRunnerConfig> = {}): AgentRunner {
+  return new AgentRunner({ client: api.createClient(), retry: { baseDelayMs: 1 }, ...config });
+}
+
+/**
+ * 入力を取らないツールの定義
+ */
+function toolDefinition(name: string) {
+  return { name, description: `${name} ツール`, input_schema: { type: 'object' as const, properties: {} } };
+}
+
+/**
+ * 中断されるまで完了しないツールハンドラー
+ */
+const waitForAbort: ToolHandler = (_input, { signal }) =>
+  new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+
+describe('AgentRunner', () => {
+  describe('モデルごとの max_tokens と思考の予算', () => {
+    const models = new ModelRegistry({
+      models: [
+        { id: 'small-thinker', contextWindow: 200_000, maxOutputTokens: 8_000, supportsThinking: true },
+        { id: 'tiny-thinker', contextWindow: 200_000, maxOutputTokens: 1_024, supportsThinking: true },
+      ],
+    });
+
+    const sentRequest = async (model: string, interleaved = false) => {
+      const api = new FakeMessagesApi([fakeTurn.text('OK')]);
+      const runner = createRunner(api, {
+        models,
+        query: { model, maxTokens: 12_000, ...thinkingQuery({ budgetTokens: 8_000, interleaved }) },
+      });
+      await runner.run('こんにちは');
+      api.assertDone();
+      return api.lastRequest()!;
+    };
+
+    it('max_tokens を最大出力トークン数に切り詰め、予算をその内側に収める', async () => {
+      const { body } = await sentRequest('small-thinker');
+
+      assert.equal(body.max_tokens, 8_000);
+      // 応答に残していた 4000 トークンを保ったまま予算を減らす
+      assert.deepEqual(body.thinking, { type: 'enabled', budget_tokens: 4_000 });
+    });
+
+    it('最小の予算も収まらないモデルには思考なしで送る', async () => {
+      const { body } = await sentRequest('tiny-thinker');
+
+      assert.equal(body.max_tokens, 1_024);
+      assert.equal(body.thinking, undefined);
+    });
+
+    it('interleaved thinking では予算が max_tokens を超えてもそのまま送る', async () => {
+      const { body, headers } = await sentRequest('small-thinker', true);
+
+      assert.equal(body.max_tokens, 8_000);
+      assert.deepEqual(body.thinking, { type: 'enabled', budget_tokens: 8_000 });
+      assert.match(headers['anthropic-beta'], /interleaved-thinking/);
+    });
+
+    it('予算が収まる場合はそのまま送る', async () => {
+      const api = new FakeMessagesApi([fakeTurn.text('OK')]);
+      const runner = createRunner(api, {
+        models,
+        query: { model: 'small-thinker', maxTokens: 6_000, ...thinkingQuery({ budgetTokens: 2_000 }) },
+      });
+
+      await runner.run('こんにちは');
+
+      const { body } = api.lastRequest()!;
+      assert.equal(body.max_tokens, 6_000);
+      assert.deepEqual(body.thinking, { type: 'enabled', budget_tokens: 2_000 });
+    });
+  });
+
+  describe('ツールの実行', () => {
+    it('読み取り専用ツールは並行して、それ以外は要求された順に1つずつ実行する', async () => {
+      const events: string[] = [];
+      let running = 0;
+      let maxRunning = 0;
+      const track = (name: string, delayMs: number): ToolHandler => async () => {
+        events.push(`start:${name}`);
+        maxRunning = Math.max(maxRunning, ++running);
+        await sleep(delayMs);
+        running--;
+        events.push(`end:${name}`);
+        return name;
+      };
+      const tools = new ToolRegistry()
+        .register(toolDefinition('read_a'), track('read_a', 30), { readOnly: true })
+        .register(toolDefinition('read_b'), track('read_b', 10), { readOnly: true })
+        .register(toolDefinition('write_a'), track('write_a', 30))
+        .register(toolDefinition('write_b'), track('write_b', 10));
+      const api = new FakeMessagesApi([
+        fakeTurn.toolUses([
+          { name: 'read_a', input: {} },
+          { name: 'read_b', input: {} },
+          { name: 'write_a', input: {} },
+          { name: 'write_b', input: {} },
+        ]),
+        fakeTurn.text('完了'),
+      ]);
+
+      await createRunner(api, { tools }).run('読んでから書いてください');
+
+      assert.equal(maxRunning, 2);
+      assert.deepEqual(events, [
+        'start:read_a',
+        'start:read_b',
+        'end:read_b',
+        'end:read_a',
+        'start:write_a',
+        'end:write_a',
+        'start:write_b',
+        'end:write_b',
+      ]);
+      // 結果は完了順ではなく要求された順で返す
+      assert.deepEqual(getToolResults(api.lastRequest()).map(r => r.content), ['read_a', 'read_b', 'write_a', 'write_b']);
+      api.assertDone();
+    });
+
+    it('pre:tool Hookで実行のブロックと入力の書き換え、post:tool Hookで結果の書き換えができる', async () => {
+      const deleted: unknown[] = [];
+      const tools = new ToolRegistry()
+        .register(toolDefinition('echo'), input => input)
+        .register(toolDefinition('delete_file'), input => deleted.push(input));
+      const hooks = new HookManager()
+        .register('pre:tool', 'deny-delete', ctx => {
+          if (ctx.toolName === 'delete_file') return { block: true, blockReason: '削除は許可されていません' };
+        })
+        .register('pre:tool', 'rewrite-input', ctx => {
+          if (ctx.toolName === 'echo') return { input: { message: '書き換えた入力' } };
+        })
+        .register('post:tool', 'rewrite-result', ctx => {
+          if (ctx.toolName === 'echo') return { result: `結果: ${JSON.stringify(ctx.result)}` };
+        });
+      const api = new FakeMessagesApi([
+        fakeTurn.toolUses([
+          { name: 'echo', input: { message: '元の入力' } },
+          { name: 'delete_file', input: { path: 'important.txt' } },
+        ]),
+        fakeTurn.text('完了'),
+      ]);
+
+      const result = await createRunner(api, { tools, hooks }).run('実行してください');
+
+      assert.deepEqual(deleted, []);
+      assert.deepEqual(result.toolCalls[0].input, { message: '書き換えた入力' });
+      assert.equal(result.toolCalls[1].errorCode, 'TOOL_BLOCKED');
+      const [echo, blocked] = getToolResults(api.lastRequest());
+      assert.equal(echo.content, '結果: {"message":"書き換えた入力"}');
+      assert.equal(blocked.is_error, true);
+      assert.match(String(blocked.content), /削除は許可されていません/);
+      api.assertDone();
+    });
+  });
+
+  describe('中断', () => {
+    it('制限時間を超えると、それまでの結果を stopReason: aborted で返す', async () => {
+      const tools = new ToolRegistry().register(toolDefinition('slow'), waitForAbort);
+      const api = new FakeMessagesApi([fakeTurn.toolUse('slow', {}, 'まず調べます')]);
+
+      const result = await createRunner(api, { tools, timeoutMs: 50 }).run('調べてください');
+
+      assert.equal(result.stopReason, 'aborted');
+      assert.equal(result.iterations, 1);
+      assert.deepEqual(result.textBlocks, ['まず調べます']);
+      assert.deepEqual(result.toolCalls.map(call => call.errorCode), ['TIMEOUT']);
+      // 中断したtool_useにも結果を返し、履歴は tool_result で終わる
+      assert.deepEqual(result.messages.map(message => message.role), ['user', 'assistant', 'user']);
+      api.assertDone();
+    });
+
+    it('シグナルで中断すると、残りのツールを実行せずに stopReason: aborted で返す', async () => {
+      const controller = new AbortController();
+      const called: string[] = [];
+      const tools = new ToolRegistry()
+        .register(toolDefinition('cancel'), () => {
+          called.push('cancel');
+          controller.abort();
+          return waitForAbort({}, { toolUseId: '', signal: controller.signal });
+        })
+        .register(toolDefinition('next'), () => called.push('next'));
+      const api = new FakeMessagesApi([
+        fakeTurn.toolUses([
+          { name: 'cancel', input: {} },
+          { name: 'next', input: {} },
+        ]),
+      ]);
+
+      const result = await createRunner(api, { tools }).run('実行してください', { signal: controller.signal });
+
+      assert.equal(result.stopReason, 'aborted');
+      assert.deepEqual(called, ['cancel']);
+      assert.deepEqual(result.toolCalls.map(call => call.errorCode), ['ABORTED', 'ABORTED']);
+      api.assertDone();
+    });
+  });
+});
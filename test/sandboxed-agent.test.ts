@@ -0,0 +1,160 @@
+import { strict as assert } from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { FakeMessagesApi, fakeTurn, getToolResults } from '../src/fake-messages-api';
+import { SandboxedAgentOptions, SandboxedClaudeAgent } from '../src/sandboxed-agent';
+import { silentLogger } from '../src/logger';
+import { createResilientClient } from '../src/resilient-client';
+
+const workDirs: string[] = [];
+after(() => workDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+/**
+ * テストごとの作業ディレクトリとエージェントを作成
+ */
+function createAgent(api: FakeMessagesApi, options: SandboxedAgentOptions = {}) {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandboxed-agent-test-'));
+  workDirs.push(workDir);
+  const agent = new SandboxedClaudeAgent('', workDir, {
+    client: api.createClient(),
+    logger: silentLogger,
+    verbose: false,
+    retry: { baseDelayMs: 1 },
+    ...options,
+  });
+  return { agent, workDir };
+}
+
+describe('SandboxedClaudeAgent', () => {
+  it('ツールを順に呼び出し、end_turn のテキストを返す', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('write_file', { path: 'hello.txt', content: 'こんにちは' }),
+      fakeTurn.toolUse('read_file', { path: 'hello.txt' }),
+      fakeTurn.text('hello.txt を作成しました'),
+    ]);
+    const { agent, workDir } = createAgent(api);
+
+    const result = await agent.run('hello.txt を作成して読み込んでください');
+
+    assert.equal(result.stopReason, 'end_turn');
+    assert.equal(result.text, 'hello.txt を作成しました');
+    assert.equal(fs.readFileSync(path.join(workDir, 'hello.txt'), 'utf-8'), 'こんにちは');
+    assert.deepEqual(result.toolCalls.map(call => call.name), ['write_file', 'read_file']);
+
+    const [readResult] = getToolResults(api.lastRequest());
+    assert.equal(readResult.is_error, undefined);
+    assert.match(String(readResult.content), /こんにちは/);
+    api.assertDone();
+  });
+
+  it('1ターンの複数のtool_useに、それぞれのtool_resultを同じ順で返す', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUses([
+        { name: 'write_file', input: { path: 'a.txt', content: 'A' }, id: 'toolu_a' },
+        { name: 'write_file', input: { path: 'b.exe', content: 'B' }, id: 'toolu_b' },
+        { name: 'write_file', input: { path: 'c.txt', content: 'C' }, id: 'toolu_c' },
+      ]),
+      fakeTurn.text('完了しました'),
+    ]);
+    const { agent, workDir } = createAgent(api);
+
+    const result = await agent.run('3つのファイルを作成してください');
+
+    assert.equal(result.iterations, 1);
+    const results = getToolResults(api.lastRequest());
+    assert.deepEqual(results.map(r => r.tool_use_id), ['toolu_a', 'toolu_b', 'toolu_c']);
+    assert.deepEqual(results.map(r => r.is_error === true), [false, true, false]);
+    assert.equal(fs.existsSync(path.join(workDir, 'a.txt')), true);
+    assert.equal(fs.existsSync(path.join(workDir, 'b.exe')), false);
+    assert.equal(fs.existsSync(path.join(workDir, 'c.txt')), true);
+    api.assertDone();
+  });
+
+  it('作業ディレクトリと同じ名前で始まる隣のディレクトリにはアクセスできない', async () => {
+    const api = new FakeMessagesApi();
+    const { agent, workDir } = createAgent(api);
+    const sibling = `${workDir}-evil`;
+    fs.mkdirSync(sibling);
+    workDirs.push(sibling);
+    api.enqueue(
+      fakeTurn.toolUse('write_file', { path: `../${path.basename(sibling)}/x.txt`, content: 'X' }),
+      fakeTurn.text('できませんでした')
+    );
+
+    const result = await agent.run('隣のディレクトリに書き込んでください');
+
+    assert.equal(result.toolCalls[0].errorCode, 'PATH_OUTSIDE_SANDBOX');
+    assert.equal(getToolResults(api.lastRequest())[0].is_error, true);
+    assert.equal(fs.existsSync(path.join(sibling, 'x.txt')), false);
+    api.assertDone();
+  });
+
+  it('テキストの途中で max_tokens に達した場合は続きを要求して連結する', async () => {
+    const api = new FakeMessagesApi([fakeTurn.maxTokens('前半'), fakeTurn.text('後半')]);
+    const { agent } = createAgent(api);
+
+    const result = await agent.run('長い文章を書いてください');
+
+    assert.equal(result.stopReason, 'end_turn');
+    assert.equal(result.text, '前半後半');
+    assert.equal(result.continuations, 1);
+
+    // 続きの要求では途中までの応答をアシスタントメッセージとして送る
+    const messages = api.lastRequest()!.body.messages;
+    assert.equal(messages[messages.length - 1].role, 'assistant');
+    api.assertDone();
+  });
+
+  it('ツールの入力が max_tokens で途切れた場合は実行せずに停止する', async () => {
+    const api = new FakeMessagesApi([fakeTurn.truncatedToolUse('write_file', '{"path": "big.txt", "content": "…')]);
+    const { agent, workDir } = createAgent(api);
+
+    const result = await agent.run('大きなファイルを作成してください');
+
+    assert.equal(result.stopReason, 'max_tokens');
+    assert.match(result.stopDetail ?? '', /write_file/);
+    assert.deepEqual(result.toolCalls, []);
+    assert.equal(fs.existsSync(path.join(workDir, 'big.txt')), false);
+    api.assertDone();
+  });
+
+  it('応答を拒否された場合は stopReason が refusal になる', async () => {
+    const api = new FakeMessagesApi([fakeTurn.refusal()]);
+    const { agent } = createAgent(api);
+
+    const result = await agent.run('お断りされる依頼');
+
+    assert.equal(result.stopReason, 'refusal');
+    assert.equal(result.text, '');
+    api.assertDone();
+  });
+
+  it('レート制限では retry-after を待ってから再送する', async () => {
+    const api = new FakeMessagesApi([fakeTurn.rateLimited(0), fakeTurn.overloaded(), fakeTurn.text('OK')]);
+    const { agent } = createAgent(api);
+
+    const result = await agent.run('こんにちは');
+
+    assert.equal(result.text, 'OK');
+    assert.equal(api.getMessageRequests().length, 3);
+    api.assertDone();
+  });
+
+  it('ローカルのHTTPサーバーとして baseURL 経由で呼び出せる', async () => {
+    const api = new FakeMessagesApi([fakeTurn.toolUse('list_files', {}), fakeTurn.text('ファイルはありません')]);
+    const baseURL = await api.listen();
+    try {
+      const { agent } = createAgent(api, { client: createResilientClient({ apiKey: 'fake-api-key', baseURL }) });
+
+      const result = await agent.runStreaming('ファイルを一覧表示してください', () => undefined);
+
+      assert.equal(result.text, 'ファイルはありません');
+      assert.equal(api.getMessageRequests()[0].stream, true);
+      api.assertDone();
+    } finally {
+      await api.close();
+    }
+  });
+});
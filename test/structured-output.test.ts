@@ -0,0 +1,63 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { FakeMessagesApi, fakeTurn, getToolResults } from '../src/fake-messages-api';
+import { StructuredOutputError, generateStructured } from '../src/structured-output';
+
+const schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['title', 'tags'],
+} as const;
+
+describe('generateStructured', () => {
+  it('スキーマに一致しない出力には検証エラーを返して再度回答させる', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('submit_result', { title: 42 }),
+      fakeTurn.toolUse('submit_result', { title: 'タイトル', tags: ['a', 'b'] }),
+    ]);
+
+    const result = await generateStructured(api.createClient(), 'タイトルとタグを抽出してください', {
+      schema,
+      retry: { baseDelayMs: 1 },
+    });
+
+    assert.deepEqual(result.data, { title: 'タイトル', tags: ['a', 'b'] });
+    assert.equal(result.attempts, 2);
+
+    const [rejected] = getToolResults(api.lastRequest());
+    assert.equal(rejected.is_error, true);
+    assert.match(String(rejected.content), /title/);
+    assert.match(String(rejected.content), /tags/);
+    assert.deepEqual(api.lastRequest()!.body.tool_choice, {
+      type: 'tool',
+      name: 'submit_result',
+      disable_parallel_tool_use: true,
+    });
+    api.assertDone();
+  });
+
+  it('最大試行回数まで一致しなければ StructuredOutputError を投げる', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('submit_result', { title: 'タイトル' }),
+      fakeTurn.text('ツールを使わずに回答します'),
+    ]);
+
+    await assert.rejects(
+      generateStructured(api.createClient(), 'タイトルとタグを抽出してください', {
+        schema,
+        maxAttempts: 2,
+        retry: { baseDelayMs: 1 },
+      }),
+      (error: unknown) => {
+        assert.ok(error instanceof StructuredOutputError);
+        assert.equal(error.code, 'STRUCTURED_OUTPUT_FAILED');
+        assert.equal(error.output, 'ツールを使わずに回答します');
+        return true;
+      }
+    );
+    api.assertDone();
+  });
+});
@@ -0,0 +1,65 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { FakeMessagesApi, fakeTurn } from '../src/fake-messages-api';
+import { SubAgentOrchestrator } from '../src/sub-agent-example';
+import { createResilientClient } from '../src/resilient-client';
+import { silentLogger } from '../src/logger';
+
+/**
+ * 指定した文字列を含むリクエストだけ、中断されるまで応答しないクライアント
+ */
+function createStallingClient(api: FakeMessagesApi, stallOn: string) {
+  return createResilientClient({
+    apiKey: 'fake-api-key',
+    fetch: async (input: string | URL | Request, init?: RequestInit) => {
+      if (typeof init?.body === 'string' && init.body.includes(stallOn)) {
+        await new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(init.signal!.reason)));
+      }
+      return api.fetch(input, init);
+    },
+  });
+}
+
+describe('SubAgentOrchestrator', () => {
+  it('順次実行で2つ目のタスクが制限時間を超えても、残りのタスクと統合を続ける', { timeout: 10_000 }, async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('submit_plan', {
+        plan: '調べてから書いてレビューする',
+        parallel: false,
+        tasks: [
+          { agentName: 'researcher', prompt: '調査タスク' },
+          { agentName: 'writer', prompt: '遅いタスク' },
+          { agentName: 'reviewer', prompt: 'レビュータスク' },
+        ],
+      }),
+      fakeTurn.text('調査結果'),
+      fakeTurn.text('レビュー結果'),
+      fakeTurn.text('統合した回答'),
+    ]);
+    const orchestrator = new SubAgentOrchestrator('', {
+      client: createStallingClient(api, '遅いタスク'),
+      logger: silentLogger,
+      retry: { baseDelayMs: 1 },
+      subAgentTimeoutMs: 100,
+    });
+    for (const name of ['researcher', 'writer', 'reviewer']) {
+      orchestrator.registerSubAgent({ name, systemPrompt: `あなたは${name}です。` });
+    }
+
+    const result = await orchestrator.orchestrate('調べて書いてレビューしてください');
+
+    assert.equal(result.stopReason, 'end_turn');
+    assert.equal(result.text, '統合した回答');
+    assert.deepEqual(
+      result.results.map(r => [r.agentName, r.result, r.errorCode]),
+      [
+        ['researcher', '調査結果', undefined],
+        ['writer', '', 'ABORTED'],
+        ['reviewer', 'レビュー結果', undefined],
+      ]
+    );
+    assert.match(api.lastRequest()!.body.messages[0].content as string, /エラー: /);
+    assert.deepEqual(orchestrator.getLastCostReport()?.subAgents.map(s => s.agentName), ['researcher', 'reviewer']);
+    api.assertDone();
+  });
+});
@@ -0,0 +1,143 @@
+import { strict as assert } from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { after, describe, it } from 'node:test';
+import { FakeMessagesApi, fakeTurn, getToolResults } from '../src/fake-messages-api';
+import { TodoAgentOptions, runAgentWithTodos } from '../src/todo-agent';
+import { silentLogger } from '../src/logger';
+
+const workDirs: string[] = [];
+after(() => workDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function createWorkDir(): string {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'todo-agent-test-'));
+  workDirs.push(workDir);
+  return workDir;
+}
+
+/**
+ * テストごとの作業ディレクトリでTodoエージェントを実行
+ */
+async function runTodos(api: FakeMessagesApi, request: string, options: TodoAgentOptions = {}) {
+  const workDir = createWorkDir();
+  const result = await runAgentWithTodos(request, {
+    client: api.createClient(),
+    workDir,
+    logger: silentLogger,
+    output: new PassThrough(),
+    retry: { baseDelayMs: 1 },
+    ...options,
+  });
+  return { result, workDir };
+}
+
+const todo = (content: string, status: 'pending' | 'in_progress' | 'completed') => ({
+  content,
+  status,
+  activeForm: `${content}中`,
+});
+
+describe('runAgentWithTodos', () => {
+  it('todo_write でタスクの進捗を更新し、最終的なTodoを返す', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('todo_write', { todos: [todo('調査', 'in_progress'), todo('まとめ', 'pending')] }),
+      fakeTurn.toolUse('todo_write', { todos: [todo('調査', 'completed'), todo('まとめ', 'in_progress')] }),
+      fakeTurn.toolUse('todo_write', { todos: [todo('調査', 'completed'), todo('まとめ', 'completed')] }),
+      fakeTurn.text('すべて完了しました'),
+    ]);
+
+    const { result, workDir } = await runTodos(api, '調査してまとめてください');
+
+    assert.equal(result.stopReason, 'end_turn');
+    assert.equal(result.text, 'すべて完了しました');
+    assert.deepEqual(result.todoManager.getStats(), { total: 2, completed: 2, inProgress: 0, pending: 0, progress: 100 });
+    assert.equal(fs.existsSync(path.join(workDir, '.todos.json')), true);
+    assert.match(String(getToolResults(api.lastRequest())[0].content), /2\/2/);
+    api.assertDone();
+  });
+
+  it('1ターンの複数のtool_useを順に実行し、最後の更新が残る', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUses([
+        { name: 'todo_write', input: { todos: [todo('A', 'in_progress')] } },
+        { name: 'todo_write', input: { todos: [todo('A', 'completed'), todo('B', 'in_progress')] } },
+      ]),
+      fakeTurn.text('完了'),
+    ]);
+
+    const { result } = await runTodos(api, 'AとBをしてください');
+
+    assert.equal(getToolResults(api.lastRequest()).length, 2);
+    assert.deepEqual(result.todoManager.getAll().map(t => [t.content, t.status]), [
+      ['A', 'completed'],
+      ['B', 'in_progress'],
+    ]);
+    api.assertDone();
+  });
+
+  it('検証に失敗したTodoは is_error のtool_resultとしてモデルに返す', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('todo_write', { todos: [todo('A', 'in_progress'), todo('B', 'in_progress')] }),
+      fakeTurn.toolUse('todo_write', { todos: [todo('A', 'in_progress'), todo('B', 'pending')] }),
+      fakeTurn.text('修正しました'),
+    ]);
+
+    const { result } = await runTodos(api, 'AとBをしてください');
+
+    const [rejected] = getToolResults(api.getMessageRequests()[1]);
+    assert.equal(rejected.is_error, true);
+    assert.match(String(rejected.content), /in_progress/);
+    assert.equal(getToolResults(api.lastRequest())[0].is_error, undefined);
+    assert.equal(result.todoManager.getInProgress()?.content, 'A');
+    api.assertDone();
+  });
+
+  it('スキーマに合わない入力は実行せずにエラーを返す', async () => {
+    const api = new FakeMessagesApi([
+      fakeTurn.toolUse('todo_write', { todos: [{ content: 'A', status: 'doing', activeForm: 'A中' }] }),
+      fakeTurn.text('諦めました'),
+    ]);
+
+    const { result } = await runTodos(api, 'Aをしてください');
+
+    assert.equal(getToolResults(api.lastRequest())[0].is_error, true);
+    assert.deepEqual(result.todoManager.getAll(), []);
+    api.assertDone();
+  });
+
+  it('max_tokens で途切れたテキストは続きを連結する', async () => {
+    const api = new FakeMessagesApi([fakeTurn.maxTokens('途中まで'), fakeTurn.text('の続き')]);
+
+    const { result } = await runTodos(api, '長く説明してください');
+
+    assert.equal(result.text, '途中までの続き');
+    assert.equal(result.continuations, 1);
+    api.assertDone();
+  });
+
+  it('応答を拒否された場合は stopReason が refusal になる', async () => {
+    const api = new FakeMessagesApi([fakeTurn.refusal('お手伝いできません')]);
+
+    const { result } = await runTodos(api, 'お断りされる依頼');
+
+    assert.equal(result.stopReason, 'refusal');
+    assert.equal(result.text, 'お手伝いできません');
+    api.assertDone();
+  });
+
+  it('セッションを指定すると会話履歴を保存して次回に再開する', async () => {
+    const api = new FakeMessagesApi([fakeTurn.text('1回目'), fakeTurn.text('2回目')]);
+    const workDir = createWorkDir();
+
+    await runTodos(api, '最初の依頼', { workDir, sessionId: 'session-1' });
+    await runTodos(api, '次の依頼', { workDir, sessionId: 'session-1' });
+
+    assert.deepEqual(
+      api.lastRequest()!.body.messages.map(message => message.role),
+      ['user', 'assistant', 'user']
+    );
+    api.assertDone();
+  });
+});